@@ -0,0 +1,127 @@
+/**
+ * Admin HTTP routes served next to the A2A routes. Protected by a bearer
+ * token separate from the Nevermined access tokens.
+ */
+
+import express from "express";
+import type { Router, RequestHandler } from "express";
+import { UsageLedger, aggregateUsage, usageToCsv } from "./ledger";
+import type { UsageGroupBy } from "./ledger";
+import type { PushNotifier } from "./push";
+import { safeEqual } from "./security";
+import { logger } from "./logger";
+
+const log = logger.child({ component: "admin" });
+
+const GROUP_BY: UsageGroupBy[] = ["subscriber", "skill", "day"];
+
+/**
+ * Middleware that only lets requests with the admin bearer token through.
+ * @param token - The admin token.
+ */
+function requireAdminToken(token: string): RequestHandler {
+  return (req, res, next) => {
+    const match = req.headers.authorization?.match(/^Bearer\s+(.+)$/i);
+    if (!match || !safeEqual(match[1].trim(), token)) {
+      res.status(401).json({ error: "unauthorized" });
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Parses an optional date query parameter. A date without a time is the
+ * start of that day (UTC), or its end when `endOfDay` is set, so that a
+ * range ending on a date includes that whole day.
+ * @returns The date, undefined when absent, or null when invalid.
+ */
+function parseDate(value: unknown, endOfDay = false): Date | undefined | null {
+  if (value === undefined) return undefined;
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) return null;
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(String(value))) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+/**
+ * Creates the admin router.
+ *
+ * GET /usage?groupBy=subscriber|skill|day&format=json|csv&from=&to=
+ * aggregates the usage ledger. `from` and `to` are ISO dates, both
+ * inclusive; a `to` date without a time includes that whole day (UTC).
+ * GET /push/:taskId returns the push notification delivery log of a task.
+ * @param options.ledger - The usage ledger.
+ * @param options.token - The admin bearer token.
+ * @param options.pushNotifier - The push notifier whose log is exposed.
+ */
+export function createAdminRouter(options: {
+  ledger: UsageLedger;
+  token: string;
+  pushNotifier?: PushNotifier;
+}): Router {
+  const router = express.Router();
+  router.use(requireAdminToken(options.token));
+
+  router.get("/usage", async (req, res) => {
+    const groupBy = String(req.query.groupBy ?? "subscriber") as UsageGroupBy;
+    const format = String(req.query.format ?? "json");
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to, true);
+
+    if (!GROUP_BY.includes(groupBy)) {
+      res
+        .status(400)
+        .json({ error: `groupBy must be one of: ${GROUP_BY.join(", ")}` });
+      return;
+    }
+    if (format !== "json" && format !== "csv") {
+      res.status(400).json({ error: "format must be json or csv" });
+      return;
+    }
+    if (from === null || to === null) {
+      res.status(400).json({ error: "from and to must be ISO dates" });
+      return;
+    }
+
+    try {
+      const entries = await options.ledger.read({ from, to });
+      const summaries = aggregateUsage(entries, groupBy);
+      if (format === "csv") {
+        res.type("text/csv").send(usageToCsv(summaries, groupBy));
+        return;
+      }
+      res.json({
+        groupBy,
+        from: from?.toISOString(),
+        to: to?.toISOString(),
+        totals: {
+          tasks: entries.length,
+          credits: entries.reduce((sum, entry) => sum + entry.credits, 0),
+        },
+        groups: summaries,
+      });
+    } catch (error) {
+      log.error("Failed to read usage ledger", { error });
+      res.status(500).json({ error: "failed to read usage ledger" });
+    }
+  });
+
+  router.get("/push/:taskId", (req, res) => {
+    const { pushNotifier } = options;
+    if (!pushNotifier) {
+      res.status(404).json({ error: "push notifications are disabled" });
+      return;
+    }
+    const deliveries = pushNotifier.deliveries(req.params.taskId);
+    res.json({
+      taskId: req.params.taskId,
+      delivered: deliveries.some((attempt) => attempt.delivered),
+      deliveries,
+    });
+  });
+
+  return router;
+}
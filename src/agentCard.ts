@@ -0,0 +1,251 @@
+/**
+ * Validation of the AgentCard before the server starts: its shape against
+ * the A2A AgentCard schema, the payment extension's agent and plan IDs,
+ * the advertised URL against the served port and base path, and the
+ * uniqueness of skill IDs.
+ */
+
+import type { AgentCard } from "@nevermined-io/payments";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * What the card must advertise to match the running server.
+ */
+export interface AgentCardExpectations {
+  agentId: string;
+  planId: string;
+  port: number;
+  basePath: string;
+}
+
+/**
+ * Error raised when the AgentCard is invalid, listing every issue.
+ */
+export class AgentCardError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(
+      `Invalid AgentCard:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`
+    );
+    this.name = "AgentCardError";
+  }
+}
+
+/** An AgentCard extension, as typed by the payments library. */
+export type AgentExtension = NonNullable<
+  AgentCard["capabilities"]["extensions"]
+>[number];
+
+/** URI of the payment extension added by the payments library. */
+export const PAYMENT_EXTENSION_URI = "urn:nevermined:payment";
+
+/** Hosts whose URLs must use the served port (no proxy in between). */
+const LOCAL_HOSTS = ["localhost", "127.0.0.1", "0.0.0.0", "[::1]"];
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+type FieldCheck = (value: unknown) => boolean;
+
+const isString: FieldCheck = (value) => typeof value === "string";
+const isNonEmptyString: FieldCheck = (value) =>
+  typeof value === "string" && value.trim().length > 0;
+const isBoolean: FieldCheck = (value) => typeof value === "boolean";
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+const isStringArray: FieldCheck = (value) =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+const isUrl = (value: unknown): value is string => {
+  if (typeof value !== "string") return false;
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Fields of an object per the A2A schema: check and whether it is required.
+ */
+type ObjectSchema = Record<string, [FieldCheck, boolean, string]>;
+
+const AGENT_CARD_SCHEMA: ObjectSchema = {
+  name: [isNonEmptyString, true, "a non-empty string"],
+  description: [isNonEmptyString, true, "a non-empty string"],
+  url: [isUrl, true, "an http(s) URL"],
+  version: [isNonEmptyString, true, "a non-empty string"],
+  protocolVersion: [isString, false, "a string"],
+  provider: [isObject, false, "an object"],
+  documentationUrl: [isUrl, false, "an http(s) URL"],
+  iconUrl: [isUrl, false, "an http(s) URL"],
+  capabilities: [isObject, true, "an object"],
+  securitySchemes: [isObject, false, "an object"],
+  security: [Array.isArray, false, "an array"],
+  defaultInputModes: [isStringArray, true, "an array of strings"],
+  defaultOutputModes: [isStringArray, true, "an array of strings"],
+  skills: [Array.isArray, true, "an array"],
+  supportsAuthenticatedExtendedCard: [isBoolean, false, "a boolean"],
+};
+
+const PROVIDER_SCHEMA: ObjectSchema = {
+  organization: [isNonEmptyString, true, "a non-empty string"],
+  url: [isUrl, true, "an http(s) URL"],
+};
+
+const CAPABILITIES_SCHEMA: ObjectSchema = {
+  streaming: [isBoolean, false, "a boolean"],
+  pushNotifications: [isBoolean, false, "a boolean"],
+  stateTransitionHistory: [isBoolean, false, "a boolean"],
+  extensions: [Array.isArray, false, "an array"],
+};
+
+const EXTENSION_SCHEMA: ObjectSchema = {
+  uri: [isNonEmptyString, true, "a non-empty string"],
+  description: [isString, false, "a string"],
+  required: [isBoolean, false, "a boolean"],
+  params: [isObject, false, "an object"],
+};
+
+const SKILL_SCHEMA: ObjectSchema = {
+  id: [isNonEmptyString, true, "a non-empty string"],
+  name: [isNonEmptyString, true, "a non-empty string"],
+  description: [isNonEmptyString, true, "a non-empty string"],
+  tags: [isStringArray, true, "an array of strings"],
+  examples: [isStringArray, false, "an array of strings"],
+  inputModes: [isStringArray, false, "an array of strings"],
+  outputModes: [isStringArray, false, "an array of strings"],
+};
+
+/**
+ * Checks an object against a schema.
+ * @param path - Path of the object in the card, for the issues.
+ * @returns The issues (empty when valid).
+ */
+function checkObject(
+  value: Record<string, unknown>,
+  schema: ObjectSchema,
+  path: string
+): string[] {
+  const issues: string[] = [];
+  for (const [field, [check, required, expected]] of Object.entries(schema)) {
+    const fieldValue = value[field];
+    if (fieldValue === undefined || fieldValue === null) {
+      if (required) issues.push(`${path}${field} is required`);
+      continue;
+    }
+    if (!check(fieldValue)) issues.push(`${path}${field} must be ${expected}`);
+  }
+  return issues;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validates an AgentCard.
+ * @param card - The card the server will advertise.
+ * @param expected - The IDs, port and base path of the running server.
+ * @returns The list of issues (empty when valid).
+ */
+export function validateAgentCard(
+  card: AgentCard,
+  expected: AgentCardExpectations
+): string[] {
+  if (!isObject(card)) return ["the AgentCard must be an object"];
+  const issues = checkObject(card, AGENT_CARD_SCHEMA, "");
+
+  if (isObject(card.provider)) {
+    issues.push(...checkObject(card.provider, PROVIDER_SCHEMA, "provider."));
+  }
+
+  const extensions: Array<Record<string, unknown>> = [];
+  if (isObject(card.capabilities)) {
+    issues.push(
+      ...checkObject(card.capabilities, CAPABILITIES_SCHEMA, "capabilities.")
+    );
+    if (Array.isArray(card.capabilities.extensions)) {
+      card.capabilities.extensions.forEach((extension: unknown, i: number) => {
+        const path = `capabilities.extensions[${i}].`;
+        if (!isObject(extension)) {
+          issues.push(`${path.slice(0, -1)} must be an object`);
+          return;
+        }
+        issues.push(...checkObject(extension, EXTENSION_SCHEMA, path));
+        extensions.push(extension);
+      });
+    }
+  }
+
+  // Skills: valid entries with unique IDs
+  const seen = new Set<string>();
+  if (Array.isArray(card.skills)) {
+    if (card.skills.length === 0) issues.push("skills must not be empty");
+    card.skills.forEach((skill: unknown, i: number) => {
+      if (!isObject(skill)) {
+        issues.push(`skills[${i}] must be an object`);
+        return;
+      }
+      issues.push(...checkObject(skill, SKILL_SCHEMA, `skills[${i}].`));
+      const id = skill.id;
+      if (typeof id !== "string") return;
+      if (seen.has(id)) issues.push(`skills[${i}].id "${id}" is not unique`);
+      seen.add(id);
+    });
+  }
+
+  // Payment extension: the agent and plan this server was set up with
+  const payment = extensions.filter(
+    (extension) => extension.uri === PAYMENT_EXTENSION_URI
+  );
+  if (payment.length !== 1) {
+    issues.push(
+      `capabilities.extensions must contain exactly one ${PAYMENT_EXTENSION_URI} extension (found ${payment.length})`
+    );
+  } else {
+    const params = isObject(payment[0].params) ? payment[0].params : {};
+    for (const field of ["agentId", "planId"] as const) {
+      if (!isNonEmptyString(params[field])) {
+        issues.push(`${PAYMENT_EXTENSION_URI} params.${field} is required`);
+      } else if (params[field] !== expected[field]) {
+        issues.push(
+          `${PAYMENT_EXTENSION_URI} params.${field} is "${params[field]}", expected "${expected[field]}"`
+        );
+      }
+    }
+  }
+
+  // URL: the served base path, and the served port for local URLs
+  if (isUrl(card.url)) {
+    const url = new URL(card.url);
+    const path = url.pathname.endsWith("/") ? url.pathname : `${url.pathname}/`;
+    if (path !== expected.basePath) {
+      issues.push(
+        `url path "${url.pathname}" does not match the base path "${expected.basePath}"`
+      );
+    }
+    const port = Number(url.port || (url.protocol === "https:" ? 443 : 80));
+    if (LOCAL_HOSTS.includes(url.hostname) && port !== expected.port) {
+      issues.push(
+        `url port ${port} does not match the served port ${expected.port}`
+      );
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validates an AgentCard and throws if it has any issue.
+ * @throws AgentCardError listing every issue.
+ */
+export function assertValidAgentCard(
+  card: AgentCard,
+  expected: AgentCardExpectations
+): void {
+  const issues = validateAgentCard(card, expected);
+  if (issues.length > 0) throw new AgentCardError(issues);
+}
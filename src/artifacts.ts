@@ -0,0 +1,151 @@
+/**
+ * Publishing of structured task artifacts via TaskArtifactUpdateEvent.
+ * Every artifact carries the human-readable text next to an
+ * application/json DataPart so pipelines never need to scrape strings.
+ */
+
+import type {
+  ExecutionEventBus,
+  TaskArtifactUpdateEvent,
+} from "@nevermined-io/payments";
+import { v4 as uuidv4 } from "uuid";
+
+/** Maximum number of text characters sent in a single artifact chunk. */
+export const ARTIFACT_CHUNK_SIZE = 8 * 1024;
+
+/**
+ * Content of an artifact produced by a skill.
+ */
+export interface ArtifactContent {
+  /** Artifact name, e.g. "weather-result". */
+  name: string;
+  /** Optional human-readable description. */
+  description?: string;
+  /** Human-readable representation of the result. */
+  text?: string;
+  /** Structured result, published as an application/json DataPart. */
+  data: Record<string, unknown>;
+}
+
+/**
+ * Splits text into chunks of at most `size` characters.
+ */
+function chunkText(text: string, size: number): string[] {
+  const chunks: string[] = [];
+  for (let offset = 0; offset < text.length; offset += size) {
+    chunks.push(text.slice(offset, offset + size));
+  }
+  return chunks;
+}
+
+/**
+ * Publishes one artifact incrementally: text chunks as they are produced,
+ * then the closing chunk with the JSON DataPart (`lastChunk: true`).
+ */
+export class ArtifactWriter {
+  readonly artifactId = uuidv4();
+  private chunksPublished = 0;
+  private closed = false;
+
+  /**
+   * @param eventBus - The event bus to publish to.
+   * @param taskId - The task ID.
+   * @param contextId - The context ID.
+   * @param name - Artifact name, e.g. "weather-forecast".
+   * @param description - Optional human-readable description.
+   * @param chunkSize - Maximum text characters per event.
+   */
+  constructor(
+    private readonly eventBus: ExecutionEventBus,
+    private readonly taskId: string,
+    private readonly contextId: string,
+    private readonly name: string,
+    private readonly description?: string,
+    private readonly chunkSize: number = ARTIFACT_CHUNK_SIZE
+  ) {}
+
+  /**
+   * Appends text to the artifact, in several events if it is longer than
+   * the chunk size.
+   */
+  write(text: string): void {
+    for (const chunk of chunkText(text, this.chunkSize)) {
+      this.publish([{ kind: "text", text: chunk }], false);
+    }
+  }
+
+  /**
+   * Publishes the closing chunk with the structured result. Idempotent.
+   * @param data - The structured result.
+   * @param text - Text to append with the closing chunk.
+   */
+  close(data: Record<string, unknown>, text?: string): void {
+    if (this.closed) return;
+    const dataPart = {
+      kind: "data" as const,
+      data,
+      metadata: { mimeType: "application/json" },
+    };
+    this.publish(
+      text !== undefined ? [{ kind: "text", text }, dataPart] : [dataPart],
+      true
+    );
+    this.closed = true;
+  }
+
+  private publish(
+    parts: TaskArtifactUpdateEvent["artifact"]["parts"],
+    lastChunk: boolean
+  ): void {
+    if (this.closed) throw new Error(`Artifact ${this.name} is already closed`);
+    this.eventBus.publish({
+      kind: "artifact-update",
+      taskId: this.taskId,
+      contextId: this.contextId,
+      artifact: {
+        artifactId: this.artifactId,
+        name: this.name,
+        description: this.description,
+        parts,
+      },
+      append: this.chunksPublished > 0,
+      lastChunk,
+    });
+    this.chunksPublished++;
+  }
+}
+
+/**
+ * Publishes an artifact as one or more artifact-update events.
+ * Text longer than the chunk size is streamed in several events with
+ * `append: true`; the JSON DataPart is attached to the event marked
+ * `lastChunk: true`.
+ * @param eventBus - The event bus to publish to.
+ * @param taskId - The task ID.
+ * @param contextId - The context ID.
+ * @param content - The artifact content.
+ * @param chunkSize - Maximum text characters per event.
+ * @returns The artifact ID.
+ */
+export function publishArtifact(
+  eventBus: ExecutionEventBus,
+  taskId: string,
+  contextId: string,
+  content: ArtifactContent,
+  chunkSize: number = ARTIFACT_CHUNK_SIZE
+): string {
+  const writer = new ArtifactWriter(
+    eventBus,
+    taskId,
+    contextId,
+    content.name,
+    content.description,
+    chunkSize
+  );
+  const textChunks = content.text ? chunkText(content.text, chunkSize) : [];
+
+  // Every chunk but the last carries text only
+  textChunks.slice(0, -1).forEach((chunk) => writer.write(chunk));
+  writer.close(content.data, textChunks[textChunks.length - 1]);
+  return writer.artifactId;
+}
@@ -0,0 +1,248 @@
+/**
+ * Pre-execution credit checks. Before a skill runs, the Executor makes sure
+ * the subscriber's remaining balance covers the estimated cost and that the
+ * charge stays within the operator's daily and monthly spending caps. The
+ * estimate of an allowed task is reserved until the task is settled, so
+ * concurrent tasks of one subscriber cannot overshoot a cap together.
+ */
+
+import type { Subscriber } from "./subscribers";
+import { logger } from "./logger";
+
+const log = logger.child({ component: "billing" });
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Credit cap of a subscriber per calendar day and month (UTC).
+ */
+export interface SpendingCap {
+  daily?: number;
+  monthly?: number;
+}
+
+/**
+ * Spending caps: a default for every subscriber plus per-subscriber
+ * overrides keyed by subscriber ID (wallet address).
+ */
+export interface SpendingCapsConfig {
+  default: SpendingCap;
+  subscribers: Record<string, SpendingCap>;
+}
+
+/**
+ * Looks up the remaining credits of a subscriber on the plan; resolves to
+ * undefined when the balance cannot be known (e.g. no wallet address).
+ */
+export type BalanceLookup = (
+  subscriber: Subscriber
+) => Promise<number | undefined>;
+
+export type CapPeriod = keyof SpendingCap;
+
+/**
+ * Outcome of a credit check.
+ */
+export type CreditCheck =
+  | { allowed: true }
+  | {
+      allowed: false;
+      reason: "insufficient_credits";
+      required: number;
+      available: number;
+    }
+  | {
+      allowed: false;
+      reason: "spending_cap_exceeded";
+      period: CapPeriod;
+      cap: number;
+      spent: number;
+      required: number;
+    };
+
+// ============================================================================
+// SPENDING TRACKER
+// ============================================================================
+
+/**
+ * Returns the UTC day ("2025-01-31") and month ("2025-01") of a date.
+ */
+function periodKeys(at: Date): Record<CapPeriod, string> {
+  const day = at.toISOString().slice(0, 10);
+  return { daily: day, monthly: day.slice(0, 7) };
+}
+
+/**
+ * Credits spent per subscriber in the current day and month.
+ */
+export class SpendingTracker {
+  private readonly spent = new Map<string, number>();
+
+  /**
+   * Records credits charged to a subscriber.
+   * @param subscriberId - The subscriber ID.
+   * @param credits - The credits charged.
+   * @param at - When they were charged (default: now).
+   */
+  record(subscriberId: string, credits: number, at: Date = new Date()): void {
+    if (!(credits > 0)) return;
+    const keys = periodKeys(at);
+    for (const period of Object.keys(keys) as CapPeriod[]) {
+      const key = `${subscriberId}|${keys[period]}`;
+      this.spent.set(key, (this.spent.get(key) ?? 0) + credits);
+    }
+  }
+
+  /**
+   * Returns the credits a subscriber spent in the period containing `at`.
+   */
+  spentIn(subscriberId: string, period: CapPeriod, at: Date = new Date()): number {
+    return this.spent.get(`${subscriberId}|${periodKeys(at)[period]}`) ?? 0;
+  }
+}
+
+// ============================================================================
+// CREDIT GUARD
+// ============================================================================
+
+/**
+ * Checks balance and spending caps before a task runs.
+ */
+export class CreditGuard {
+  /** Estimates of the allowed tasks not settled yet, keyed by taskId. */
+  private readonly reservations = new Map<
+    string,
+    { subscriberId: string; credits: number }
+  >();
+
+  /**
+   * @param options.balance - Balance lookup; omit to skip balance checks.
+   * @param options.caps - The spending caps.
+   * @param options.tracker - Where charged credits are tallied.
+   */
+  constructor(
+    private readonly options: {
+      balance?: BalanceLookup;
+      caps: SpendingCapsConfig;
+      tracker: SpendingTracker;
+    }
+  ) {}
+
+  /**
+   * Returns the caps that apply to a subscriber.
+   */
+  capsFor(subscriberId: string): SpendingCap {
+    const override = Object.entries(this.options.caps.subscribers).find(
+      ([id]) => id.toLowerCase() === subscriberId.toLowerCase()
+    );
+    return { ...this.options.caps.default, ...override?.[1] };
+  }
+
+  /**
+   * Returns each cap of a subscriber with the credits spent against it.
+   */
+  spending(
+    subscriberId: string
+  ): Array<{ period: CapPeriod; cap: number; spent: number }> {
+    const caps = this.capsFor(subscriberId);
+    return (["daily", "monthly"] as CapPeriod[])
+      .filter((period) => caps[period] !== undefined)
+      .map((period) => ({
+        period,
+        cap: caps[period] as number,
+        spent: this.options.tracker.spentIn(subscriberId, period),
+      }));
+  }
+
+  /**
+   * Returns the credits reserved for a subscriber's unsettled tasks.
+   */
+  reserved(subscriberId: string): number {
+    let credits = 0;
+    for (const reservation of this.reservations.values()) {
+      if (reservation.subscriberId === subscriberId) {
+        credits += reservation.credits;
+      }
+    }
+    return credits;
+  }
+
+  /**
+   * Checks whether a subscriber may spend the required credits and, if so,
+   * reserves them for the task until settle() is called. Credits reserved
+   * for the subscriber's other tasks count as spent.
+   * A failing balance lookup is logged and does not block the task: the
+   * payments library still refuses to burn credits the plan does not have.
+   * @param subscriber - The caller.
+   * @param required - The estimated credits of the request.
+   * @param taskId - The task the credits are reserved for.
+   */
+  async check(
+    subscriber: Subscriber,
+    required: number,
+    taskId: string
+  ): Promise<CreditCheck> {
+    if (required <= 0) return { allowed: true };
+
+    const caps = this.capsFor(subscriber.id);
+    const reserved = this.reserved(subscriber.id);
+    for (const period of ["daily", "monthly"] as CapPeriod[]) {
+      const cap = caps[period];
+      if (cap === undefined) continue;
+      const spent =
+        this.options.tracker.spentIn(subscriber.id, period) + reserved;
+      if (spent + required > cap) {
+        return {
+          allowed: false,
+          reason: "spending_cap_exceeded",
+          period,
+          cap,
+          spent,
+          required,
+        };
+      }
+    }
+
+    // Reserve before the balance lookup so concurrent checks see each other
+    this.reservations.set(taskId, {
+      subscriberId: subscriber.id,
+      credits: required,
+    });
+
+    if (this.options.balance) {
+      try {
+        const available = await this.options.balance(subscriber);
+        if (available !== undefined && available < reserved + required) {
+          this.reservations.delete(taskId);
+          return {
+            allowed: false,
+            reason: "insufficient_credits",
+            required,
+            available: Math.max(0, available - reserved),
+          };
+        }
+      } catch (error) {
+        log.warn("Balance lookup failed, continuing", {
+          subscriber: subscriber.id,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Releases the reservation of a finished task and records the credits
+   * actually charged against the subscriber's caps.
+   * @param taskId - The task.
+   * @param subscriberId - The subscriber charged.
+   * @param credits - The final charge (0 when nothing is billed).
+   */
+  settle(taskId: string, subscriberId: string, credits: number): void {
+    this.reservations.delete(taskId);
+    this.options.tracker.record(subscriberId, credits);
+  }
+}
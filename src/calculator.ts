@@ -0,0 +1,562 @@
+/**
+ * Safe arithmetic expression engine used by the calculation skill.
+ * Tokenizes, parses and evaluates expressions without ever calling eval().
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type TokenType =
+  | "number"
+  | "identifier"
+  | "operator"
+  | "lparen"
+  | "rparen"
+  | "comma"
+  | "semicolon"
+  | "assign"
+  | "eof";
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+type Node =
+  | { kind: "number"; value: number; position: number }
+  | { kind: "identifier"; name: string; position: number }
+  | { kind: "unary"; operator: "-" | "+"; operand: Node; position: number }
+  | { kind: "percent"; operand: Node; position: number }
+  | {
+      kind: "binary";
+      operator: "+" | "-" | "*" | "/" | "%" | "^";
+      left: Node;
+      right: Node;
+      position: number;
+    }
+  | { kind: "call"; name: string; args: Node[]; position: number };
+
+interface Statement {
+  target?: string;
+  expression: Node;
+}
+
+/**
+ * Options accepted by evaluateExpression.
+ */
+export interface EvaluateOptions {
+  /** Maximum number of decimal places in the result (default: 10). */
+  precision?: number;
+  /** Initial variable bindings available to the expression. */
+  variables?: Record<string, number>;
+}
+
+/**
+ * Result of a successful evaluation.
+ */
+export interface EvaluationResult {
+  /** The final value, rounded to the requested precision. */
+  value: number;
+  /** Variables assigned by the expression (e.g. `r = 2; pi * r^2`). */
+  variables: Record<string, number>;
+}
+
+/**
+ * Error raised when an expression cannot be tokenized, parsed or evaluated.
+ * The position is the zero-based offset of the offending token.
+ */
+export class CalculationError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number,
+    public readonly token?: string
+  ) {
+    super(message);
+    this.name = "CalculationError";
+  }
+}
+
+// ============================================================================
+// BUILT-INS
+// ============================================================================
+
+/**
+ * Maps rather than object literals, so names such as "constructor" or
+ * "__proto__" are unknown instead of resolving to Object.prototype members.
+ */
+const CONSTANTS = new Map<string, number>([
+  ["pi", Math.PI],
+  ["e", Math.E],
+  ["tau", 2 * Math.PI],
+  ["phi", (1 + Math.sqrt(5)) / 2],
+]);
+
+/**
+ * Supported functions with their allowed argument counts.
+ */
+const FUNCTIONS = new Map<
+  string,
+  { minArgs: number; maxArgs: number; fn: (...args: number[]) => number }
+>([
+  ["sqrt", { minArgs: 1, maxArgs: 1, fn: Math.sqrt }],
+  ["cbrt", { minArgs: 1, maxArgs: 1, fn: Math.cbrt }],
+  ["abs", { minArgs: 1, maxArgs: 1, fn: Math.abs }],
+  ["sin", { minArgs: 1, maxArgs: 1, fn: Math.sin }],
+  ["cos", { minArgs: 1, maxArgs: 1, fn: Math.cos }],
+  ["tan", { minArgs: 1, maxArgs: 1, fn: Math.tan }],
+  ["asin", { minArgs: 1, maxArgs: 1, fn: Math.asin }],
+  ["acos", { minArgs: 1, maxArgs: 1, fn: Math.acos }],
+  ["atan", { minArgs: 1, maxArgs: 1, fn: Math.atan }],
+  ["log", { minArgs: 1, maxArgs: 1, fn: Math.log10 }],
+  ["ln", { minArgs: 1, maxArgs: 1, fn: Math.log }],
+  ["log2", { minArgs: 1, maxArgs: 1, fn: Math.log2 }],
+  ["exp", { minArgs: 1, maxArgs: 1, fn: Math.exp }],
+  ["floor", { minArgs: 1, maxArgs: 1, fn: Math.floor }],
+  ["ceil", { minArgs: 1, maxArgs: 1, fn: Math.ceil }],
+  [
+    "round",
+    {
+      minArgs: 1,
+      maxArgs: 2,
+      fn: (value: number, digits = 0) => roundTo(value, digits),
+    },
+  ],
+  ["min", { minArgs: 1, maxArgs: Infinity, fn: Math.min }],
+  ["max", { minArgs: 1, maxArgs: Infinity, fn: Math.max }],
+]);
+
+const DEFAULT_PRECISION = 10;
+const MAX_PRECISION = 15;
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+/**
+ * Splits an expression into tokens.
+ * @param input - The raw expression.
+ * @returns The list of tokens, terminated by an `eof` token.
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(char)) {
+      const match = input
+        .slice(i)
+        .match(/^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/);
+      if (!match) {
+        throw new CalculationError(
+          `Unexpected character "${char}" at position ${i}`,
+          i,
+          char
+        );
+      }
+      tokens.push({ type: "number", value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[a-zA-Z_]/.test(char)) {
+      const match = input.slice(i).match(/^[a-zA-Z_][a-zA-Z0-9_]*/)!;
+      tokens.push({ type: "identifier", value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if ("+-*/^%".includes(char)) {
+      // Accept "**" as an alias for "^"
+      if (char === "*" && input[i + 1] === "*") {
+        tokens.push({ type: "operator", value: "^", position: i });
+        i += 2;
+        continue;
+      }
+      tokens.push({ type: "operator", value: char, position: i });
+      i++;
+      continue;
+    }
+
+    const single: Record<string, TokenType> = {
+      "(": "lparen",
+      ")": "rparen",
+      ",": "comma",
+      ";": "semicolon",
+      "=": "assign",
+    };
+    if (single[char]) {
+      tokens.push({ type: single[char], value: char, position: i });
+      i++;
+      continue;
+    }
+
+    throw new CalculationError(
+      `Unexpected character "${char}" at position ${i}`,
+      i,
+      char
+    );
+  }
+
+  tokens.push({ type: "eof", value: "", position: input.length });
+  return tokens;
+}
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+/**
+ * Recursive-descent parser. Grammar, from lowest to highest precedence:
+ *
+ *   program    := statement (";" statement)*
+ *   statement  := identifier "=" expression | expression
+ *   expression := term (("+" | "-") term)*
+ *   term       := unary (("*" | "/" | "%") unary)*
+ *   unary      := ("-" | "+") unary | power
+ *   power      := postfix ("^" unary)?
+ *   postfix    := primary "%"*
+ *   primary    := number | identifier | call | "(" expression ")"
+ *
+ * A `%` that is not followed by an operand is a percentage (x / 100),
+ * otherwise it is the modulo operator.
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parseProgram(): Statement[] {
+    const statements: Statement[] = [this.parseStatement()];
+    while (this.peek().type === "semicolon") {
+      this.next();
+      if (this.peek().type === "eof") break;
+      statements.push(this.parseStatement());
+    }
+    this.expect("eof");
+    return statements;
+  }
+
+  private parseStatement(): Statement {
+    const token = this.peek();
+    if (token.type === "identifier" && this.peek(1).type === "assign") {
+      const reserved = token.value.toLowerCase();
+      if (CONSTANTS.has(reserved) || FUNCTIONS.has(reserved)) {
+        throw this.error(token, `Cannot assign to reserved name "${token.value}"`);
+      }
+      this.next();
+      this.next();
+      return { target: token.value, expression: this.parseExpression() };
+    }
+    return { expression: this.parseExpression() };
+  }
+
+  private parseExpression(): Node {
+    let left = this.parseTerm();
+    while (this.isOperator("+") || this.isOperator("-")) {
+      const operator = this.next();
+      const right = this.parseTerm();
+      left = {
+        kind: "binary",
+        operator: operator.value as "+" | "-",
+        left,
+        right,
+        position: operator.position,
+      };
+    }
+    return left;
+  }
+
+  private parseTerm(): Node {
+    let left = this.parseUnary();
+    while (
+      this.isOperator("*") ||
+      this.isOperator("/") ||
+      (this.isOperator("%") && this.startsOperand(this.peek(1)))
+    ) {
+      const operator = this.next();
+      const right = this.parseUnary();
+      left = {
+        kind: "binary",
+        operator: operator.value as "*" | "/" | "%",
+        left,
+        right,
+        position: operator.position,
+      };
+    }
+    return left;
+  }
+
+  private parseUnary(): Node {
+    if (this.isOperator("-") || this.isOperator("+")) {
+      const operator = this.next();
+      return {
+        kind: "unary",
+        operator: operator.value as "-" | "+",
+        operand: this.parseUnary(),
+        position: operator.position,
+      };
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): Node {
+    const base = this.parsePostfix();
+    if (this.isOperator("^")) {
+      const operator = this.next();
+      // Right-associative, and binds tighter than a leading unary minus
+      const exponent = this.parseUnary();
+      return {
+        kind: "binary",
+        operator: "^",
+        left: base,
+        right: exponent,
+        position: operator.position,
+      };
+    }
+    return base;
+  }
+
+  private parsePostfix(): Node {
+    let node = this.parsePrimary();
+    while (this.isOperator("%") && !this.startsOperand(this.peek(1))) {
+      const operator = this.next();
+      node = { kind: "percent", operand: node, position: operator.position };
+    }
+    return node;
+  }
+
+  private parsePrimary(): Node {
+    const token = this.peek();
+
+    if (token.type === "number") {
+      this.next();
+      const value = Number(token.value);
+      if (!Number.isFinite(value)) {
+        throw this.error(token, `Invalid number "${token.value}"`);
+      }
+      return { kind: "number", value, position: token.position };
+    }
+
+    if (token.type === "identifier") {
+      this.next();
+      if (this.peek().type === "lparen") {
+        return this.parseCall(token);
+      }
+      return { kind: "identifier", name: token.value, position: token.position };
+    }
+
+    if (token.type === "lparen") {
+      this.next();
+      const inner = this.parseExpression();
+      this.expect("rparen");
+      return inner;
+    }
+
+    throw this.error(
+      token,
+      token.type === "eof"
+        ? `Unexpected end of expression at position ${token.position}`
+        : `Unexpected token "${token.value}" at position ${token.position}`
+    );
+  }
+
+  private parseCall(name: Token): Node {
+    this.expect("lparen");
+    const args: Node[] = [];
+    if (this.peek().type !== "rparen") {
+      args.push(this.parseExpression());
+      while (this.peek().type === "comma") {
+        this.next();
+        args.push(this.parseExpression());
+      }
+    }
+    this.expect("rparen");
+    return { kind: "call", name: name.value, args, position: name.position };
+  }
+
+  private startsOperand(token: Token): boolean {
+    return (
+      token.type === "number" ||
+      token.type === "identifier" ||
+      token.type === "lparen" ||
+      (token.type === "operator" && (token.value === "-" || token.value === "+"))
+    );
+  }
+
+  private isOperator(value: string): boolean {
+    const token = this.peek();
+    return token.type === "operator" && token.value === value;
+  }
+
+  private expect(type: TokenType): Token {
+    const token = this.peek();
+    if (token.type !== type) {
+      const expected: Record<string, string> = {
+        rparen: '")"',
+        lparen: '"("',
+        eof: "end of expression",
+      };
+      const found =
+        token.type === "eof" ? "end of expression" : `"${token.value}"`;
+      throw this.error(
+        token,
+        `Expected ${expected[type] || type} but found ${found} at position ${token.position}`
+      );
+    }
+    return this.next();
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private error(token: Token, message: string): CalculationError {
+    return new CalculationError(message, token.position, token.value);
+  }
+}
+
+// ============================================================================
+// EVALUATOR
+// ============================================================================
+
+/**
+ * Evaluates a parsed node against the given variable scope.
+ */
+function evaluateNode(node: Node, scope: Record<string, number>): number {
+  switch (node.kind) {
+    case "number":
+      return node.value;
+    case "identifier": {
+      const name = node.name;
+      if (Object.prototype.hasOwnProperty.call(scope, name)) return scope[name];
+      const constant = CONSTANTS.get(name.toLowerCase());
+      if (constant !== undefined) return constant;
+      throw new CalculationError(
+        `Unknown variable "${name}" at position ${node.position}`,
+        node.position,
+        name
+      );
+    }
+    case "unary": {
+      const operand = evaluateNode(node.operand, scope);
+      return node.operator === "-" ? -operand : operand;
+    }
+    case "percent":
+      return evaluateNode(node.operand, scope) / 100;
+    case "binary": {
+      const left = evaluateNode(node.left, scope);
+      const right = evaluateNode(node.right, scope);
+      switch (node.operator) {
+        case "+":
+          return left + right;
+        case "-":
+          return left - right;
+        case "*":
+          return left * right;
+        case "/":
+        case "%":
+          if (right === 0) {
+            throw new CalculationError(
+              `Division by zero at position ${node.position}`,
+              node.position,
+              node.operator
+            );
+          }
+          return node.operator === "/" ? left / right : left % right;
+        case "^":
+          return Math.pow(left, right);
+      }
+    }
+    case "call": {
+      const definition = FUNCTIONS.get(node.name.toLowerCase());
+      if (!definition) {
+        throw new CalculationError(
+          `Unknown function "${node.name}" at position ${node.position}`,
+          node.position,
+          node.name
+        );
+      }
+      if (
+        node.args.length < definition.minArgs ||
+        node.args.length > definition.maxArgs
+      ) {
+        throw new CalculationError(
+          `Wrong number of arguments for "${node.name}" at position ${node.position}`,
+          node.position,
+          node.name
+        );
+      }
+      return definition.fn(...node.args.map((arg) => evaluateNode(arg, scope)));
+    }
+  }
+}
+
+/**
+ * Rounds a number to a fixed number of decimal places, halves away from
+ * zero (round(2.5) is 3, round(-2.5) is -3). The epsilon absorbs binary
+ * representation errors such as 1.005 being stored as 1.00499...
+ */
+function roundTo(value: number, digits: number): number {
+  const factor = Math.pow(10, Math.max(0, Math.min(MAX_PRECISION, digits)));
+  const rounded = Math.round((Math.abs(value) + Number.EPSILON) * factor) / factor;
+  return value < 0 ? -rounded : rounded;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Tokenizes, parses and evaluates an arithmetic expression.
+ * Supports + - * / ^ %, unary minus, parentheses, functions
+ * (sqrt, sin, log, abs, round, ...), constants (pi, e, tau, phi)
+ * and variable assignments separated by semicolons.
+ * @param expression - The expression to evaluate.
+ * @param options - Precision and initial variables.
+ * @returns The rounded value and the resulting variable bindings.
+ * @throws CalculationError with the position of the offending token.
+ */
+export function evaluateExpression(
+  expression: string,
+  options: EvaluateOptions = {}
+): EvaluationResult {
+  const precision = options.precision ?? DEFAULT_PRECISION;
+  // No prototype, so assigning to "__proto__" defines an ordinary variable
+  const scope: Record<string, number> = Object.assign(
+    Object.create(null),
+    options.variables
+  );
+
+  const statements = new Parser(tokenize(expression)).parseProgram();
+
+  let value = NaN;
+  for (const statement of statements) {
+    value = evaluateNode(statement.expression, scope);
+    if (statement.target) {
+      scope[statement.target] = value;
+    }
+  }
+
+  if (!Number.isFinite(value)) {
+    throw new CalculationError(
+      "Result is not a finite number",
+      0,
+      expression
+    );
+  }
+
+  return { value: roundTo(value, precision), variables: scope };
+}
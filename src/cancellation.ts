@@ -0,0 +1,256 @@
+/**
+ * Task cancellation registry. Every running task gets a CancellationToken
+ * keyed by taskId; Executor.cancelTask aborts it, running handlers stop at
+ * their next checkpoint, and the task finishes with a final `canceled` event
+ * billed for the work actually done.
+ */
+
+import type { ExecutionEventBus } from "@nevermined-io/payments";
+import { v4 as uuidv4 } from "uuid";
+
+/**
+ * Error thrown inside a handler when its task has been cancelled.
+ */
+export class TaskCancelledError extends Error {
+  constructor(public readonly taskId: string) {
+    super(`Task ${taskId} was cancelled`);
+    this.name = "TaskCancelledError";
+  }
+}
+
+/**
+ * Progress reported by a handler, used to prorate credits on cancellation.
+ */
+export interface TaskProgress {
+  completed: number;
+  total: number;
+}
+
+/**
+ * Handle a running task uses to observe cancellation and report progress.
+ */
+export class CancellationToken {
+  private readonly controller = new AbortController();
+  private progress: TaskProgress = { completed: 0, total: 1 };
+  private ended = false;
+
+  constructor(
+    public readonly taskId: string,
+    public readonly contextId: string,
+    public readonly eventBus: ExecutionEventBus,
+    private readonly onRelease: () => void
+  ) {}
+
+  /** Whether the task has been cancelled. */
+  get cancelled(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  /** Abort signal that fires when the task is cancelled. */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * Throws TaskCancelledError if the task has been cancelled.
+   */
+  throwIfCancelled(): void {
+    if (this.cancelled) throw new TaskCancelledError(this.taskId);
+  }
+
+  /**
+   * Records how much of the work is done.
+   * @param completed - Units of work completed.
+   * @param total - Total units of work.
+   */
+  setProgress(completed: number, total: number): void {
+    this.progress = { completed, total: Math.max(1, total) };
+  }
+
+  /** Returns the last reported progress. */
+  getProgress(): TaskProgress {
+    return { ...this.progress };
+  }
+
+  /** Whether a final event has been published for the task. */
+  get finalized(): boolean {
+    return this.ended;
+  }
+
+  /**
+   * Marks the task as having published its final event.
+   * @returns False if it was already marked, i.e. this final event is a
+   * second one (e.g. from a handler that outlived a graceful shutdown).
+   */
+  finalize(): boolean {
+    if (this.ended) return false;
+    this.ended = true;
+    return true;
+  }
+
+  /**
+   * Aborts the task. Called by the registry.
+   */
+  cancel(): void {
+    this.controller.abort();
+  }
+
+  /**
+   * Removes the token from the registry once the task has finished.
+   */
+  release(): void {
+    this.onRelease();
+  }
+}
+
+/**
+ * Registry of running tasks, keyed by taskId.
+ */
+export class CancellationRegistry {
+  private readonly tokens = new Map<string, CancellationToken>();
+  /** Waiting for every running task to finish (see whenIdle). */
+  private idleWaiters: Array<() => void> = [];
+
+  /**
+   * Registers a running task.
+   * @param taskId - The task ID.
+   * @param contextId - The context ID.
+   * @param eventBus - The event bus of the running task.
+   * @returns The token the task uses to observe cancellation.
+   */
+  register(
+    taskId: string,
+    contextId: string,
+    eventBus: ExecutionEventBus
+  ): CancellationToken {
+    const token = new CancellationToken(taskId, contextId, eventBus, () => {
+      if (this.tokens.get(taskId) === token) this.tokens.delete(taskId);
+      if (this.tokens.size === 0) {
+        const waiters = this.idleWaiters;
+        this.idleWaiters = [];
+        waiters.forEach((resolve) => resolve());
+      }
+    });
+    this.tokens.set(taskId, token);
+    return token;
+  }
+
+  /**
+   * Cancels a running task.
+   * @param taskId - The task ID.
+   * @returns True if the task was running and has been cancelled.
+   */
+  cancel(taskId: string): boolean {
+    const token = this.tokens.get(taskId);
+    if (!token || token.cancelled) return false;
+    token.cancel();
+    return true;
+  }
+
+  /** Returns the token of a running task, if any. */
+  get(taskId: string): CancellationToken | undefined {
+    return this.tokens.get(taskId);
+  }
+
+  /** Returns the tokens of every running task. */
+  running(): CancellationToken[] {
+    return Array.from(this.tokens.values());
+  }
+
+  /**
+   * Waits until no task is running.
+   * @param timeoutMs - How long to wait.
+   * @returns True if every task finished in time.
+   */
+  whenIdle(timeoutMs: number): Promise<boolean> {
+    if (this.tokens.size === 0) return Promise.resolve(true);
+    return new Promise((resolve) => {
+      const onIdle = () => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+      const timer = setTimeout(() => {
+        this.idleWaiters = this.idleWaiters.filter((waiter) => waiter !== onIdle);
+        resolve(false);
+      }, timeoutMs);
+      this.idleWaiters.push(onIdle);
+    });
+  }
+}
+
+/**
+ * Sleeps for the given time, rejecting early with TaskCancelledError
+ * when the task is cancelled.
+ * @param ms - Milliseconds to wait.
+ * @param token - The task cancellation token.
+ */
+export function cancellableSleep(
+  ms: number,
+  token: CancellationToken
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (token.cancelled) {
+      reject(new TaskCancelledError(token.taskId));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new TaskCancelledError(token.taskId));
+    };
+    const timer = setTimeout(() => {
+      token.signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    token.signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Computes the credits to bill for a cancelled task, proportional to the
+ * progress the handler reported.
+ * @param credits - The full cost of the skill.
+ * @param progress - The reported progress.
+ */
+export function proratedCredits(credits: number, progress: TaskProgress): number {
+  const fraction = Math.min(1, Math.max(0, progress.completed / progress.total));
+  return Math.ceil(credits * fraction);
+}
+
+/**
+ * Publishes the final `canceled` status-update and finishes the event bus.
+ * @param token - The cancellation token of the task.
+ * @param metadata - Metadata for the final event (creditsUsed, planId, ...).
+ */
+export function publishCancellation(
+  token: CancellationToken,
+  metadata: Record<string, unknown>
+): void {
+  const { taskId, contextId, eventBus } = token;
+  const progress = token.getProgress();
+  eventBus.publish({
+    kind: "status-update",
+    taskId,
+    contextId,
+    status: {
+      state: "canceled",
+      message: {
+        kind: "message",
+        role: "agent",
+        messageId: uuidv4(),
+        parts: [
+          {
+            kind: "text",
+            text: `Task canceled after ${progress.completed}/${progress.total} steps.`,
+          },
+        ],
+        taskId,
+        contextId,
+      },
+      timestamp: new Date().toISOString(),
+    },
+    final: true,
+    metadata: { ...metadata, progress },
+  });
+  eventBus.finished();
+  token.release();
+}
@@ -0,0 +1,867 @@
+/**
+ * Typed, validated configuration shared by the agent and the client.
+ * Values are layered, each layer overriding the previous one:
+ *   defaults → profile → config file → config file profile → env vars → CLI flags
+ * Credentials have no built-in defaults: startup fails with a clear error
+ * instead of silently using embedded keys.
+ */
+
+import fs from "fs";
+import path from "path";
+import type { EnvironmentName } from "@nevermined-io/payments";
+import type { PricingConfig } from "./pricing";
+import type { SpendingCapsConfig } from "./billing";
+import type { QuotaConfig } from "./quotas";
+import type { PushDeliveryConfig } from "./push";
+import { logger, LOG_FORMATS, LOG_LEVELS } from "./logger";
+import type { LogFormat, LogLevel } from "./logger";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Configuration of the A2A agent (server).
+ */
+export interface AgentConfig {
+  /** Port the A2A server listens on. */
+  port: number;
+  /** Base path of the A2A routes, with leading and trailing slash. */
+  basePath: string;
+  /** Public URL of the agent; defaults to http://localhost:<port><basePath>. */
+  publicUrl: string;
+  /** Publisher API key (PUBLISHER_API_KEY). */
+  apiKey: string;
+  /** Agent ID; a new agent and plan are registered when missing. */
+  agentId: string;
+  /** Plan ID; a new agent and plan are registered when missing. */
+  planId: string;
+  /** ERC20 token used to price the plan. */
+  tokenAddress: `0x${string}`;
+}
+
+/**
+ * Configuration of the A2A client.
+ */
+export interface ClientConfig {
+  /** Subscriber API key (SUBSCRIBER_API_KEY). */
+  apiKey: string;
+  /** Base URL of the agent's A2A routes. */
+  agentUrl: string;
+  agentId: string;
+  planId: string;
+  /** Port of the local push notification webhook receiver. */
+  webhookPort: number;
+  /** URL registered as push notification target. */
+  webhookUrl: string;
+  /** Oldest push notification the webhook receiver accepts, in seconds. */
+  webhookMaxAgeSeconds: number;
+  /** Whether the agent runs tasks asynchronously (required for push notifications). */
+  asyncExecution: boolean;
+}
+
+/**
+ * Configuration of the task store.
+ */
+export interface TaskStoreConfig {
+  kind: "file" | "memory";
+  directory: string;
+}
+
+/**
+ * Configuration of the pre-execution credit checks.
+ */
+export interface BillingConfig {
+  /** Whether to check the subscriber's plan balance before running a task. */
+  checkBalance: boolean;
+  /** Per-subscriber daily and monthly credit caps. */
+  caps: SpendingCapsConfig;
+}
+
+/**
+ * Configuration of the usage ledger and the admin routes.
+ */
+export interface AdminConfig {
+  /** JSON Lines file the usage ledger is appended to. */
+  ledgerFile: string;
+  /** Bearer token of the admin routes; the routes are disabled without it. */
+  token: string;
+}
+
+/**
+ * Configuration of the weather data source.
+ */
+export interface WeatherConfig {
+  /** "simulator" (seeded, deterministic) or "fixtures" (fixed JSON data). */
+  provider: "simulator" | "fixtures";
+  /** Seed of the simulator. */
+  seed: number;
+  /** JSON fixtures file; the built-in fixtures are used when empty. */
+  fixturesFile: string;
+  /** How long responses are cached per location; 0 disables the cache. */
+  cacheTtlSeconds: number;
+}
+
+/**
+ * Maxima of the streaming skill; requests asking for more are refused.
+ */
+export interface StreamingConfig {
+  /** Most messages one stream may send. */
+  maxMessages: number;
+  /** Shortest and longest interval between messages, in milliseconds. */
+  minIntervalMs: number;
+  maxIntervalMs: number;
+  /** Longest text a stream may send. */
+  maxTextLength: number;
+  /** Idle time after which a heartbeat event is sent, in milliseconds. */
+  heartbeatIntervalMs: number;
+}
+
+/**
+ * Configuration of the translation engine.
+ */
+export interface TranslationConfig {
+  /** Directory of extra JSON phrase tables; only the built-in ones when empty. */
+  phrasesDir: string;
+}
+
+/**
+ * Configuration of the readiness probe.
+ */
+export interface HealthConfig {
+  /** Whether /readyz checks that the payments service is reachable. */
+  checkPayments: boolean;
+  /** How long the result of the payments check is reused, in seconds. */
+  probeCacheSeconds: number;
+}
+
+/**
+ * Configuration of the graceful shutdown on SIGINT and SIGTERM.
+ */
+export interface ShutdownConfig {
+  /** How long running tasks may keep going before they are cancelled, in seconds. */
+  gracePeriodSeconds: number;
+  /** How long queued push notifications may take to be delivered, in seconds. */
+  pushFlushTimeoutSeconds: number;
+}
+
+/**
+ * Configuration of the logs.
+ */
+export interface LoggingConfig {
+  /** Lowest level written: debug, info, warn or error. */
+  level: LogLevel;
+  /** "json" (one object per line) or "pretty" (readable lines). */
+  format: LogFormat;
+}
+
+/**
+ * The full application configuration.
+ */
+export interface AppConfig {
+  /** Name of the selected profile, if any. */
+  profile?: string;
+  /** Nevermined environment. */
+  environment: EnvironmentName;
+  agent: AgentConfig;
+  client: ClientConfig;
+  taskStore: TaskStoreConfig;
+  /** Per-skill prices; validated by the pricing engine at startup. */
+  pricing: PricingConfig;
+  billing: BillingConfig;
+  admin: AdminConfig;
+  /** Rate limits and concurrency quotas of the A2A routes. */
+  limits: QuotaConfig;
+  weather: WeatherConfig;
+  translation: TranslationConfig;
+  streaming: StreamingConfig;
+  /** Waiting for push notification configs and delivering notifications. */
+  push: PushDeliveryConfig;
+  health: HealthConfig;
+  logging: LoggingConfig;
+  shutdown: ShutdownConfig;
+}
+
+/**
+ * Which process is loading the configuration; determines required fields.
+ */
+export type ConfigRole = "agent" | "client";
+
+type ConfigLayer = Record<string, unknown>;
+
+/**
+ * Error raised when the configuration is invalid. Lists every issue found.
+ */
+export class ConfigError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(
+      `Invalid configuration:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`
+    );
+    this.name = "ConfigError";
+  }
+}
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+const ENVIRONMENTS = [
+  "local",
+  "staging_sandbox",
+  "staging_live",
+  "sandbox",
+  "live",
+  "custom",
+];
+
+type FieldType = "string" | "number" | "boolean";
+
+/**
+ * Definition of a configuration field.
+ */
+interface FieldDefinition {
+  type: FieldType;
+  /** Environment variables that set the field. */
+  env?: string[];
+  /** Allowed values. */
+  enum?: string[];
+  /** Roles for which the field must be set. */
+  requiredFor?: ConfigRole[];
+  /** Extra validation; returns an error message when invalid. */
+  validate?: (value: any) => string | undefined;
+}
+
+const isPort = (value: number) =>
+  Number.isInteger(value) && value > 0 && value < 65536
+    ? undefined
+    : "must be an integer between 1 and 65535";
+
+const isPositiveInteger = (value: number) =>
+  Number.isInteger(value) && value > 0
+    ? undefined
+    : "must be a positive integer";
+
+const isNonNegativeInteger = (value: number) =>
+  Number.isInteger(value) && value >= 0
+    ? undefined
+    : "must be a non-negative integer";
+
+const isUrl = (value: string) => {
+  try {
+    new URL(value);
+    return undefined;
+  } catch {
+    return "must be a valid URL";
+  }
+};
+
+/**
+ * Every supported field, keyed by its dotted path.
+ */
+const SCHEMA: Record<string, FieldDefinition> = {
+  environment: {
+    type: "string",
+    env: ["NVM_ENVIRONMENT"],
+    enum: ENVIRONMENTS,
+  },
+  "agent.port": { type: "number", env: ["PORT"], validate: isPort },
+  "agent.basePath": {
+    type: "string",
+    env: ["A2A_BASE_PATH"],
+    validate: (value: string) =>
+      value.startsWith("/") && value.endsWith("/")
+        ? undefined
+        : 'must start and end with "/"',
+  },
+  "agent.publicUrl": { type: "string", env: ["AGENT_PUBLIC_URL"], validate: isUrl },
+  "agent.apiKey": {
+    type: "string",
+    env: ["PUBLISHER_API_KEY"],
+    requiredFor: ["agent"],
+  },
+  "agent.agentId": { type: "string", env: ["AGENT_ID"] },
+  "agent.planId": { type: "string", env: ["PLAN_ID"] },
+  "agent.tokenAddress": {
+    type: "string",
+    env: ["TOKEN_ADDRESS"],
+    validate: (value: string) =>
+      /^0x[0-9a-fA-F]{40}$/.test(value) ? undefined : "must be a 0x address",
+  },
+  "client.apiKey": {
+    type: "string",
+    env: ["SUBSCRIBER_API_KEY"],
+    requiredFor: ["client"],
+  },
+  "client.agentUrl": { type: "string", env: ["AGENT_URL"], validate: isUrl },
+  "client.agentId": {
+    type: "string",
+    env: ["AGENT_ID"],
+    requiredFor: ["client"],
+  },
+  "client.planId": {
+    type: "string",
+    env: ["PLAN_ID"],
+    requiredFor: ["client"],
+  },
+  "client.webhookPort": {
+    type: "number",
+    env: ["WEBHOOK_PORT"],
+    validate: isPort,
+  },
+  "client.webhookUrl": { type: "string", env: ["WEBHOOK_URL"], validate: isUrl },
+  "client.webhookMaxAgeSeconds": {
+    type: "number",
+    env: ["WEBHOOK_MAX_AGE"],
+    validate: isPositiveInteger,
+  },
+  "client.asyncExecution": { type: "boolean", env: ["ASYNC_EXECUTION"] },
+  "taskStore.kind": { type: "string", env: ["TASK_STORE"], enum: ["file", "memory"] },
+  "taskStore.directory": { type: "string", env: ["TASK_STORE_DIR"] },
+  "admin.ledgerFile": { type: "string", env: ["USAGE_LEDGER_FILE"] },
+  "admin.token": { type: "string", env: ["ADMIN_TOKEN"] },
+  "weather.provider": {
+    type: "string",
+    env: ["WEATHER_PROVIDER"],
+    enum: ["simulator", "fixtures"],
+  },
+  "weather.seed": {
+    type: "number",
+    env: ["WEATHER_SEED"],
+    validate: (value: number) =>
+      Number.isInteger(value) ? undefined : "must be an integer",
+  },
+  "weather.fixturesFile": { type: "string", env: ["WEATHER_FIXTURES_FILE"] },
+  "weather.cacheTtlSeconds": {
+    type: "number",
+    env: ["WEATHER_CACHE_TTL"],
+    validate: (value: number) =>
+      value >= 0 ? undefined : "must be 0 or more",
+  },
+  "translation.phrasesDir": { type: "string", env: ["TRANSLATION_PHRASES_DIR"] },
+  "streaming.maxMessages": {
+    type: "number",
+    env: ["STREAM_MAX_MESSAGES"],
+    validate: isPositiveInteger,
+  },
+  "streaming.minIntervalMs": {
+    type: "number",
+    env: ["STREAM_MIN_INTERVAL_MS"],
+    validate: isPositiveInteger,
+  },
+  "streaming.maxIntervalMs": {
+    type: "number",
+    env: ["STREAM_MAX_INTERVAL_MS"],
+    validate: isPositiveInteger,
+  },
+  "streaming.maxTextLength": {
+    type: "number",
+    env: ["STREAM_MAX_TEXT_LENGTH"],
+    validate: isPositiveInteger,
+  },
+  "streaming.heartbeatIntervalMs": {
+    type: "number",
+    env: ["STREAM_HEARTBEAT_MS"],
+    validate: isPositiveInteger,
+  },
+  "push.configTimeoutSeconds": {
+    type: "number",
+    env: ["PUSH_CONFIG_TIMEOUT"],
+    validate: isPositiveInteger,
+  },
+  "push.maxAttempts": {
+    type: "number",
+    env: ["PUSH_MAX_ATTEMPTS"],
+    validate: isPositiveInteger,
+  },
+  "push.retryBaseMs": {
+    type: "number",
+    env: ["PUSH_RETRY_BASE_MS"],
+    validate: isPositiveInteger,
+  },
+  "push.retryMaxMs": {
+    type: "number",
+    env: ["PUSH_RETRY_MAX_MS"],
+    validate: isPositiveInteger,
+  },
+  "push.requestTimeoutMs": {
+    type: "number",
+    env: ["PUSH_REQUEST_TIMEOUT_MS"],
+    validate: isPositiveInteger,
+  },
+  "logging.level": { type: "string", env: ["LOG_LEVEL"], enum: LOG_LEVELS },
+  "logging.format": { type: "string", env: ["LOG_FORMAT"], enum: LOG_FORMATS },
+  "health.checkPayments": { type: "boolean", env: ["HEALTH_CHECK_PAYMENTS"] },
+  "health.probeCacheSeconds": {
+    type: "number",
+    env: ["HEALTH_PROBE_CACHE_SECONDS"],
+    validate: isPositiveInteger,
+  },
+  "shutdown.gracePeriodSeconds": {
+    type: "number",
+    env: ["SHUTDOWN_GRACE_PERIOD"],
+    validate: isNonNegativeInteger,
+  },
+  "shutdown.pushFlushTimeoutSeconds": {
+    type: "number",
+    env: ["SHUTDOWN_PUSH_FLUSH_TIMEOUT"],
+    validate: isNonNegativeInteger,
+  },
+  "limits.subscriber.requestsPerMinute": {
+    type: "number",
+    env: ["RATE_LIMIT_RPM"],
+    validate: isPositiveInteger,
+  },
+  "limits.subscriber.concurrentTasks": {
+    type: "number",
+    env: ["MAX_CONCURRENT_TASKS"],
+    validate: isPositiveInteger,
+  },
+  "limits.subscriber.concurrentStreams": {
+    type: "number",
+    env: ["MAX_CONCURRENT_STREAMS"],
+    validate: isPositiveInteger,
+  },
+  "limits.global.requestsPerMinute": {
+    type: "number",
+    env: ["GLOBAL_RATE_LIMIT_RPM"],
+    validate: isPositiveInteger,
+  },
+  "limits.global.concurrentTasks": {
+    type: "number",
+    env: ["GLOBAL_MAX_CONCURRENT_TASKS"],
+    validate: isPositiveInteger,
+  },
+  "limits.global.concurrentStreams": {
+    type: "number",
+    env: ["GLOBAL_MAX_CONCURRENT_STREAMS"],
+    validate: isPositiveInteger,
+  },
+  "billing.checkBalance": { type: "boolean", env: ["CHECK_BALANCE"] },
+  "billing.caps.default.daily": {
+    type: "number",
+    env: ["DAILY_CREDIT_CAP"],
+    validate: isPositiveInteger,
+  },
+  "billing.caps.default.monthly": {
+    type: "number",
+    env: ["MONTHLY_CREDIT_CAP"],
+    validate: isPositiveInteger,
+  },
+};
+
+/** Short CLI aliases for common flags. */
+const CLI_ALIASES: Record<string, string> = {
+  port: "agent.port",
+  "base-path": "agent.basePath",
+  "agent-url": "client.agentUrl",
+  "webhook-port": "client.webhookPort",
+  "log-level": "logging.level",
+  "log-format": "logging.format",
+  env: "environment",
+};
+
+/**
+ * Defaults. Credentials and IDs are intentionally absent.
+ */
+const DEFAULTS: ConfigLayer = {
+  environment: "staging_sandbox",
+  agent: {
+    port: 41243,
+    basePath: "/a2a/",
+    tokenAddress: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+  },
+  client: {
+    webhookPort: 4000,
+    webhookMaxAgeSeconds: 300,
+    asyncExecution: false,
+  },
+  taskStore: {
+    kind: "file",
+    directory: "data/tasks",
+  },
+  pricing: {},
+  billing: {
+    checkBalance: true,
+    caps: { default: {}, subscribers: {} },
+  },
+  admin: {
+    ledgerFile: "data/usage.jsonl",
+    token: "",
+  },
+  weather: {
+    provider: "simulator",
+    seed: 42,
+    fixturesFile: "",
+    cacheTtlSeconds: 300,
+  },
+  translation: {
+    phrasesDir: "",
+  },
+  streaming: {
+    maxMessages: 100,
+    minIntervalMs: 100,
+    maxIntervalMs: 60000,
+    maxTextLength: 5000,
+    heartbeatIntervalMs: 15000,
+  },
+  push: {
+    configTimeoutSeconds: 60,
+    maxAttempts: 5,
+    retryBaseMs: 1000,
+    retryMaxMs: 30000,
+    requestTimeoutMs: 10000,
+  },
+  health: {
+    checkPayments: true,
+    probeCacheSeconds: 30,
+  },
+  logging: {
+    level: "info",
+    format: "json",
+  },
+  shutdown: {
+    gracePeriodSeconds: 30,
+    pushFlushTimeoutSeconds: 10,
+  },
+  limits: {
+    global: { requestsPerMinute: 600, concurrentTasks: 50, concurrentStreams: 20 },
+    subscriber: { requestsPerMinute: 60, concurrentTasks: 5, concurrentStreams: 2 },
+    skills: {
+      streaming: { requestsPerMinute: 10, concurrentTasks: 2 },
+      push_notification: { requestsPerMinute: 10, concurrentTasks: 2 },
+    },
+  },
+};
+
+/**
+ * Built-in profiles. A config file can add profiles or override these.
+ */
+const BUILT_IN_PROFILES: Record<string, ConfigLayer> = {
+  local: { environment: "local" },
+  staging: { environment: "staging_sandbox" },
+  production: { environment: "live" },
+};
+
+// ============================================================================
+// LAYERS
+// ============================================================================
+
+function getPath(layer: ConfigLayer, dotted: string): unknown {
+  return dotted
+    .split(".")
+    .reduce<unknown>(
+      (value, key) =>
+        value && typeof value === "object"
+          ? (value as ConfigLayer)[key]
+          : undefined,
+      layer
+    );
+}
+
+function setPath(layer: ConfigLayer, dotted: string, value: unknown): void {
+  const keys = dotted.split(".");
+  let target = layer;
+  for (const key of keys.slice(0, -1)) {
+    if (!target[key] || typeof target[key] !== "object") target[key] = {};
+    target = target[key] as ConfigLayer;
+  }
+  target[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Deep-merges configuration layers; later layers win.
+ */
+function mergeLayers(...layers: ConfigLayer[]): ConfigLayer {
+  const result: ConfigLayer = {};
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer)) {
+      if (value === undefined) continue;
+      if (value && typeof value === "object" && !Array.isArray(value)) {
+        result[key] = mergeLayers(
+          (result[key] as ConfigLayer) || {},
+          value as ConfigLayer
+        );
+      } else {
+        result[key] = value;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Converts a raw string (from env or CLI) to the field type.
+ */
+function coerce(
+  raw: string,
+  field: FieldDefinition,
+  source: string,
+  issues: string[]
+): unknown {
+  switch (field.type) {
+    case "number": {
+      const value = Number(raw);
+      if (raw.trim() === "" || !Number.isFinite(value)) {
+        issues.push(`${source} must be a number (got "${raw}")`);
+        return undefined;
+      }
+      return value;
+    }
+    case "boolean":
+      if (/^(true|1|yes)$/i.test(raw)) return true;
+      if (/^(false|0|no)$/i.test(raw)) return false;
+      issues.push(`${source} must be true or false (got "${raw}")`);
+      return undefined;
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Parses `--key=value`, `--key value` and `--flag` CLI arguments.
+ */
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) continue;
+    const [name, inline] = arg.slice(2).split(/=(.*)/s);
+    if (inline !== undefined) {
+      args[name] = inline;
+    } else if (argv[i + 1] !== undefined && !argv[i + 1].startsWith("--")) {
+      args[name] = argv[++i];
+    } else {
+      args[name] = "true";
+    }
+  }
+  return args;
+}
+
+function envLayer(env: NodeJS.ProcessEnv, issues: string[]): ConfigLayer {
+  const layer: ConfigLayer = {};
+  for (const [dotted, field] of Object.entries(SCHEMA)) {
+    for (const name of field.env || []) {
+      const raw = env[name];
+      if (raw === undefined || raw === "") continue;
+      setPath(layer, dotted, coerce(raw, field, `env ${name}`, issues));
+    }
+  }
+  return layer;
+}
+
+function cliLayer(args: Record<string, string>, issues: string[]): ConfigLayer {
+  const layer: ConfigLayer = {};
+  for (const [name, raw] of Object.entries(args)) {
+    if (name === "config" || name === "profile") continue;
+    const dotted = CLI_ALIASES[name] || name;
+    const field = SCHEMA[dotted];
+    if (!field) {
+      issues.push(`Unknown CLI flag --${name}`);
+      continue;
+    }
+    setPath(layer, dotted, coerce(raw, field, `--${name}`, issues));
+  }
+  return layer;
+}
+
+function fileLayer(file: string, issues: string[]): ConfigLayer {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      issues.push(`Config file ${file} must contain a JSON object`);
+      return {};
+    }
+    return parsed;
+  } catch (error) {
+    issues.push(
+      `Cannot read config file ${file}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    return {};
+  }
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function validate(
+  config: ConfigLayer,
+  role: ConfigRole,
+  issues: string[]
+): void {
+  for (const [dotted, field] of Object.entries(SCHEMA)) {
+    const value = getPath(config, dotted);
+    const sources = field.env?.length ? ` (env ${field.env.join(" or ")})` : "";
+    if (value === undefined || value === "") {
+      if (field.requiredFor?.includes(role)) {
+        issues.push(`${dotted} is required${sources}`);
+      }
+      continue;
+    }
+    if (typeof value !== field.type) {
+      issues.push(`${dotted} must be a ${field.type}`);
+      continue;
+    }
+    if (field.enum && !field.enum.includes(value as string)) {
+      issues.push(`${dotted} must be one of: ${field.enum.join(", ")}`);
+      continue;
+    }
+    const error = field.validate?.(value);
+    if (error) issues.push(`${dotted} ${error}`);
+  }
+
+  const minIntervalMs = getPath(config, "streaming.minIntervalMs");
+  const maxIntervalMs = getPath(config, "streaming.maxIntervalMs");
+  if (
+    typeof minIntervalMs === "number" &&
+    typeof maxIntervalMs === "number" &&
+    minIntervalMs > maxIntervalMs
+  ) {
+    issues.push("streaming.minIntervalMs must not exceed streaming.maxIntervalMs");
+  }
+
+  // Per-skill limits are keyed by skill ID, so they are not in the schema
+  const skillLimits = getPath(config, "limits.skills") || {};
+  for (const [skillId, limits] of Object.entries(skillLimits)) {
+    for (const [limit, max] of Object.entries(limits || {})) {
+      const dotted = `limits.skills.${skillId}.${limit}`;
+      if (!["requestsPerMinute", "concurrentTasks", "concurrentStreams"].includes(limit)) {
+        issues.push(
+          `${dotted} is not a limit (requestsPerMinute, concurrentTasks or concurrentStreams)`
+        );
+      } else if (typeof max !== "number" || isPositiveInteger(max)) {
+        issues.push(`${dotted} must be a positive integer`);
+      }
+    }
+  }
+
+  // Per-subscriber caps are keyed by address, so they are not in the schema
+  const subscriberCaps = getPath(config, "billing.caps.subscribers") || {};
+  for (const [subscriber, caps] of Object.entries(subscriberCaps)) {
+    for (const [period, cap] of Object.entries(caps || {})) {
+      const dotted = `billing.caps.subscribers.${subscriber}.${period}`;
+      if (period !== "daily" && period !== "monthly") {
+        issues.push(`${dotted} is not a cap period (daily or monthly)`);
+      } else if (typeof cap !== "number" || isPositiveInteger(cap)) {
+        issues.push(`${dotted} must be a positive integer`);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Options for loadConfig.
+ */
+export interface LoadConfigOptions {
+  /** Process loading the config; determines the required fields. */
+  role: ConfigRole;
+  /** CLI arguments (default: process.argv without node and script). */
+  argv?: string[];
+  /** Environment variables (default: process.env). */
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Loads, merges and validates the configuration.
+ * The config file is taken from `--config` or `A2A_CONFIG` (default
+ * `a2a.config.json` if present) and the profile from `--profile` or
+ * `A2A_PROFILE`.
+ * @returns The validated configuration.
+ * @throws ConfigError listing every invalid or missing value.
+ */
+export function loadConfig(options: LoadConfigOptions): AppConfig {
+  const argv = options.argv ?? process.argv.slice(2);
+  const env = options.env ?? process.env;
+  const issues: string[] = [];
+  const args = parseArgs(argv);
+
+  // Config file
+  const explicitFile = args.config || env.A2A_CONFIG;
+  const file = explicitFile || "a2a.config.json";
+  const fileConfig =
+    explicitFile || fs.existsSync(file)
+      ? fileLayer(path.resolve(file), issues)
+      : {};
+  const { profiles: fileProfiles = {}, ...fileValues } = fileConfig as {
+    profiles?: Record<string, ConfigLayer>;
+  };
+
+  // Profile
+  const profile = args.profile || env.A2A_PROFILE;
+  const builtInProfile = profile ? BUILT_IN_PROFILES[profile] : undefined;
+  const fileProfile = profile ? fileProfiles[profile] : undefined;
+  if (profile && !builtInProfile && !fileProfile) {
+    const known = [
+      ...Object.keys(BUILT_IN_PROFILES),
+      ...Object.keys(fileProfiles),
+    ];
+    issues.push(`Unknown profile "${profile}" (known: ${known.join(", ")})`);
+  }
+
+  const merged = mergeLayers(
+    DEFAULTS,
+    builtInProfile || {},
+    fileValues,
+    fileProfile || {},
+    envLayer(env, issues),
+    cliLayer(args, issues)
+  );
+
+  // Derived defaults
+  const agent = (merged.agent || {}) as Partial<AgentConfig>;
+  const client = (merged.client || {}) as Partial<ClientConfig>;
+  agent.publicUrl ??= `http://localhost:${agent.port}${agent.basePath}`;
+  client.agentUrl ??= `http://localhost:${agent.port}${(
+    agent.basePath || "/"
+  ).replace(/\/$/, "")}`;
+  client.webhookUrl ??= `http://localhost:${client.webhookPort}/webhook`;
+  merged.agent = agent;
+  merged.client = client;
+
+  validate(merged, options.role, issues);
+  if (issues.length > 0) {
+    throw new ConfigError(issues);
+  }
+
+  return {
+    ...(merged as unknown as AppConfig),
+    agent: { agentId: "", planId: "", ...agent } as AgentConfig,
+    client: client as ClientConfig,
+    profile,
+  };
+}
+
+/**
+ * Loads the configuration, printing the issues and exiting the process
+ * when it is invalid. Intended for process entrypoints.
+ * @param role - Process loading the config.
+ */
+export function loadConfigOrExit(role: ConfigRole): AppConfig {
+  return exitOnConfigError(() => loadConfig({ role }));
+}
+
+/**
+ * Runs a configuration step, printing the issues and exiting the process
+ * when it throws a ConfigError.
+ * @param load - The step to run (e.g. building the pricing table).
+ */
+export function exitOnConfigError<T>(load: () => T): T {
+  try {
+    return load();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      logger.error("Invalid configuration", {
+        component: "config",
+        issues: error.issues,
+      });
+      process.exit(1);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Conversation store keyed by contextId. Remembers the last skill and the
+ * arguments it ran with, plus any request waiting for missing parameters,
+ * so follow-up messages in the same context can build on earlier turns.
+ */
+
+/** Conversations idle for longer than this are forgotten. */
+const DEFAULT_CONVERSATION_TTL_MS = 30 * 60 * 1000;
+
+/**
+ * A request that ended in `input-required` and waits for the next message.
+ */
+export interface PendingRequest {
+  /** The skill waiting for input. */
+  skillId: string;
+  /** The arguments collected so far. */
+  args: Record<string, unknown>;
+  /** The names of the missing arguments. */
+  missing: string[];
+}
+
+/**
+ * What the agent remembers about a conversation.
+ */
+export interface ConversationState {
+  contextId: string;
+  /** The last skill that completed in this context. */
+  lastSkillId?: string;
+  /** The arguments the last skill ran with. */
+  lastArgs?: Record<string, unknown>;
+  /** A request waiting for missing parameters. */
+  pending?: PendingRequest;
+  /** Number of messages handled in this context. */
+  turns: number;
+  updatedAt: number;
+}
+
+/**
+ * In-memory conversation store with idle expiry.
+ */
+export class ConversationStore {
+  private readonly conversations = new Map<string, ConversationState>();
+
+  constructor(private readonly ttlMs: number = DEFAULT_CONVERSATION_TTL_MS) {}
+
+  /**
+   * Returns the state of a conversation, or undefined if unknown or expired.
+   * @param contextId - The conversation context ID.
+   */
+  get(contextId: string): ConversationState | undefined {
+    this.prune();
+    return this.conversations.get(contextId);
+  }
+
+  /**
+   * Records a turn that completed with the given skill and arguments.
+   * Clears any pending request.
+   * @param contextId - The conversation context ID.
+   * @param skillId - The skill that handled the turn.
+   * @param args - The arguments it ran with.
+   */
+  recordCompleted(
+    contextId: string,
+    skillId: string,
+    args?: Record<string, unknown>
+  ): void {
+    const state = this.touch(contextId);
+    state.lastSkillId = skillId;
+    state.lastArgs = args;
+    state.pending = undefined;
+  }
+
+  /**
+   * Records a turn that needs more input before the skill can run.
+   * @param contextId - The conversation context ID.
+   * @param pending - The pending request.
+   */
+  recordPending(contextId: string, pending: PendingRequest): void {
+    this.touch(contextId).pending = pending;
+  }
+
+  /**
+   * Records a turn that neither completed nor needs input (e.g. a failure).
+   * Keeps the previous skill but drops any pending request.
+   * @param contextId - The conversation context ID.
+   */
+  recordOther(contextId: string): void {
+    this.touch(contextId).pending = undefined;
+  }
+
+  /**
+   * Returns the state for a context, creating it if needed, and bumps its turn count.
+   */
+  private touch(contextId: string): ConversationState {
+    let state = this.conversations.get(contextId);
+    if (!state) {
+      state = { contextId, turns: 0, updatedAt: Date.now() };
+      this.conversations.set(contextId, state);
+    }
+    state.turns++;
+    state.updatedAt = Date.now();
+    return state;
+  }
+
+  /**
+   * Drops conversations idle for longer than the TTL.
+   */
+  private prune(): void {
+    const cutoff = Date.now() - this.ttlMs;
+    for (const [contextId, state] of this.conversations) {
+      if (state.updatedAt < cutoff) this.conversations.delete(contextId);
+    }
+  }
+}
+
+/**
+ * Returns true if the text reads like a follow-up to a previous turn
+ * ("and in Paris?", "now French", "what about Tokyo").
+ */
+export function isFollowUp(text: string): boolean {
+  return /^\s*(and|now|also|what about|how about|same for|then)\b/i.test(text);
+}
+
+/**
+ * Strips follow-up markers and trailing punctuation from a message,
+ * leaving the new value ("and in Paris?" → "Paris").
+ * @param text - The follow-up message.
+ * @param prepositions - Leading prepositions to strip as well (e.g. "in", "to").
+ */
+export function stripFollowUpMarkers(
+  text: string,
+  prepositions: string[] = []
+): string {
+  let value = text
+    .trim()
+    .replace(/^(and|now|also|what about|how about|same for|then)\b[\s,]*/i, "")
+    .replace(/[?.!\s]+$/, "");
+  if (prepositions.length > 0) {
+    value = value.replace(
+      new RegExp(`^(${prepositions.join("|")})\\s+`, "i"),
+      ""
+    );
+  }
+  return value.replace(/^['"]|['"]$/g, "").trim();
+}
@@ -0,0 +1,54 @@
+/**
+ * Helpers around the A2A ExecutionEventBus.
+ */
+
+import type {
+  ExecutionEventBus,
+  Message,
+  Task,
+  TaskArtifactUpdateEvent,
+  TaskStatusUpdateEvent,
+} from "@nevermined-io/payments";
+import { logger } from "./logger";
+import type { Logger } from "./logger";
+
+/**
+ * An event published on the bus.
+ */
+export type BusEvent =
+  | Task
+  | Message
+  | TaskStatusUpdateEvent
+  | TaskArtifactUpdateEvent;
+
+/**
+ * Wraps an event bus so a listener sees every published event before it is
+ * forwarded. Listener errors are logged and never break the task.
+ * @param eventBus - The event bus to wrap.
+ * @param listener - Called with each published event; returning false
+ * drops the event instead of forwarding it.
+ * @param log - Where listener errors are logged (e.g. the task's logger).
+ * @returns An event bus with the same interface.
+ */
+export function tapEventBus(
+  eventBus: ExecutionEventBus,
+  listener: (event: BusEvent) => boolean | void,
+  log: Logger = logger.child({ component: "a2a" })
+): ExecutionEventBus {
+  return new Proxy(eventBus, {
+    get(target, property, receiver) {
+      if (property === "publish") {
+        return (event: BusEvent) => {
+          try {
+            if (listener(event) === false) return;
+          } catch (error) {
+            log.error("Event listener failed", { error });
+          }
+          return target.publish(event);
+        };
+      }
+      const value = Reflect.get(target, property, receiver);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
@@ -0,0 +1,238 @@
+/**
+ * Authenticated extended AgentCard. The public card only advertises the
+ * marketing-level cost description; a subscriber presenting a valid bearer
+ * token gets the card with their balance, the skills their plan unlocks,
+ * per-skill pricing and the rate limits that apply to them.
+ */
+
+import type { RequestHandler } from "express";
+import type { AgentCard } from "@nevermined-io/payments";
+import { identifySubscriber } from "./subscribers";
+import type { Subscriber, TokenVerifier } from "./subscribers";
+import type { PricingEngine, SkillPrice } from "./pricing";
+import type { CreditGuard, CapPeriod } from "./billing";
+import type { QuotaConfig, QuotaLimits } from "./quotas";
+import type { Skill } from "./skills";
+import { PAYMENT_EXTENSION_URI } from "./agentCard";
+import type { AgentExtension } from "./agentCard";
+import { logger } from "./logger";
+
+const log = logger.child({ component: "agent-card" });
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Path of the extended card, relative to the A2A base path. */
+export const EXTENDED_CARD_PATH = "agent/authenticatedExtendedCard";
+
+/** URI of the AgentCard extension carrying the subscription details. */
+export const SUBSCRIPTION_EXTENSION_URI = "urn:nevermined:subscription";
+
+/**
+ * Why a skill is locked for a subscriber.
+ * - `insufficient_credits`: the balance is below the skill's minimum price.
+ * - `spending_cap_exceeded`: a spending cap leaves less than that price.
+ */
+export type LockReason = "insufficient_credits" | "spending_cap_exceeded";
+
+/**
+ * A skill as offered to a subscriber.
+ */
+export interface SkillOffer {
+  skillId: string;
+  name: string;
+  price: SkillPrice;
+  unlocked: boolean;
+  reason?: LockReason;
+  /** Per-skill limits, on top of the subscriber limits. */
+  rateLimits?: QuotaLimits;
+}
+
+/**
+ * Subscription details of the extended card.
+ */
+export interface SubscriptionDetails {
+  subscriberId: string;
+  planId: string;
+  /** Plan balance in credits, when the payments service reports it. */
+  balance?: number;
+  spendingCaps: Array<{
+    period: CapPeriod;
+    cap: number;
+    spent: number;
+    remaining: number;
+  }>;
+  unlockedSkills: string[];
+  skills: SkillOffer[];
+  rateLimits: { global: QuotaLimits; subscriber: QuotaLimits };
+}
+
+// ============================================================================
+// EXTENDED CARD
+// ============================================================================
+
+/**
+ * Computes what a subscriber's plan offers: prices, which skills the
+ * balance and spending caps allow, and the rate limits.
+ * @param subscriber - The authenticated caller.
+ * @param balance - The subscriber's plan balance, when known.
+ * @param options - The skills, pricing, plan, credit guard and quotas.
+ */
+export function describeSubscription(
+  subscriber: Subscriber,
+  balance: number | undefined,
+  options: {
+    skills: Skill[];
+    pricing: PricingEngine;
+    planId: string;
+    creditGuard?: CreditGuard;
+    quotas: QuotaConfig;
+  }
+): SubscriptionDetails {
+  const spendingCaps = (options.creditGuard?.spending(subscriber.id) ?? []).map(
+    (cap) => ({ ...cap, remaining: Math.max(0, cap.cap - cap.spent) })
+  );
+  const capRemaining = Math.min(
+    Infinity,
+    ...spendingCaps.map((cap) => cap.remaining)
+  );
+
+  const skills = options.skills.map((skill): SkillOffer => {
+    const price = options.pricing.describe(skill.id);
+    const reason: LockReason | undefined =
+      balance !== undefined && balance < price.minimumCredits
+        ? "insufficient_credits"
+        : capRemaining < price.minimumCredits
+          ? "spending_cap_exceeded"
+          : undefined;
+    return {
+      skillId: skill.id,
+      name: skill.card.name,
+      price,
+      unlocked: reason === undefined,
+      ...(reason ? { reason } : {}),
+      ...(options.quotas.skills[skill.id]
+        ? { rateLimits: options.quotas.skills[skill.id] }
+        : {}),
+    };
+  });
+
+  return {
+    subscriberId: subscriber.id,
+    planId: options.planId,
+    ...(balance !== undefined ? { balance } : {}),
+    spendingCaps,
+    unlockedSkills: skills
+      .filter((skill) => skill.unlocked)
+      .map((skill) => skill.skillId),
+    skills,
+    rateLimits: {
+      global: options.quotas.global,
+      subscriber: options.quotas.subscriber,
+    },
+  };
+}
+
+/**
+ * Builds the extended card from the public one: the payment extension gets
+ * the per-skill cost description, and the subscription details are added
+ * as their own extension.
+ * @param card - The public AgentCard.
+ * @param details - The subscriber's subscription details.
+ * @param costDescription - The per-skill cost description.
+ */
+export function buildExtendedAgentCard(
+  card: AgentCard,
+  details: SubscriptionDetails,
+  costDescription: string
+): AgentCard {
+  const extensions = card.capabilities?.extensions ?? [];
+  return {
+    ...card,
+    capabilities: {
+      ...card.capabilities,
+      extensions: [
+        ...extensions.map((extension: AgentExtension) =>
+          extension.uri === PAYMENT_EXTENSION_URI
+            ? { ...extension, params: { ...extension.params, costDescription } }
+            : extension
+        ),
+        {
+          uri: SUBSCRIPTION_EXTENSION_URI,
+          description:
+            "Balance, unlocked skills, per-skill pricing and rate limits of the authenticated subscriber",
+          required: false,
+          params: details,
+        },
+      ],
+    },
+  };
+}
+
+/**
+ * Builds the handler serving the extended card. Requests without a bearer
+ * token, or whose token the payments service rejects, get 401; a card that
+ * cannot be built gets 500.
+ * @param options.card - Returns the current public AgentCard.
+ * @param options.planId - Returns the plan ID credits are charged against.
+ * @param options.verify - Validates the caller's token and returns their balance.
+ */
+export function createExtendedCardHandler(options: {
+  card: () => AgentCard;
+  planId: () => string;
+  verify: TokenVerifier;
+  skills: Skill[];
+  pricing: PricingEngine;
+  creditGuard?: CreditGuard;
+  quotas: QuotaConfig;
+}): RequestHandler {
+  return async (req, res) => {
+    const subscriber = identifySubscriber(req.headers.authorization);
+    if (!subscriber) {
+      res
+        .status(401)
+        .set("WWW-Authenticate", "Bearer")
+        .json({ error: "missing bearer token" });
+      return;
+    }
+
+    let balance: number | undefined;
+    try {
+      ({ balance } = await options.verify(subscriber));
+    } catch (error) {
+      log.warn("Extended card refused", {
+        subscriber: subscriber.id,
+        error: error instanceof Error ? error.message : error,
+      });
+      res
+        .status(401)
+        .set("WWW-Authenticate", 'Bearer error="invalid_token"')
+        .json({ error: "invalid or unauthorized bearer token" });
+      return;
+    }
+
+    try {
+      const details = describeSubscription(subscriber, balance, {
+        skills: options.skills,
+        pricing: options.pricing,
+        planId: options.planId(),
+        creditGuard: options.creditGuard,
+        quotas: options.quotas,
+      });
+      res.json(
+        buildExtendedAgentCard(
+          options.card(),
+          details,
+          options.pricing.skillCostDescription(options.skills)
+        )
+      );
+    } catch (error) {
+      log.error("Failed to build the extended card", {
+        subscriber: subscriber.id,
+        error,
+      });
+      res.status(500).json({ error: "failed to build the extended card" });
+    }
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * Probe and metrics routes for container orchestrators: `/healthz` (the
+ * process is up), `/readyz` (every readiness probe passes) and `/metrics`
+ * (Prometheus text format). They are unauthenticated, like the AgentCard.
+ */
+
+import express from "express";
+import type { Router } from "express";
+import { METRICS_CONTENT_TYPE } from "./metrics";
+import type { AgentMetrics } from "./metrics";
+import { logger } from "./logger";
+
+const log = logger.child({ component: "health" });
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A readiness check. `check` throws (or rejects) when the dependency is
+ * not ready; results are reused for `cacheMs` so probes stay cheap.
+ */
+export interface ReadinessProbe {
+  name: string;
+  check: () => Promise<void> | void;
+  cacheMs?: number;
+}
+
+/**
+ * Result of a readiness probe.
+ */
+export interface ProbeResult {
+  name: string;
+  ok: boolean;
+  error?: string;
+  checkedAt: string;
+}
+
+/** Longest a probe may take before it counts as failed. */
+const PROBE_TIMEOUT_MS = 5000;
+
+/**
+ * Runs a probe with a timeout.
+ */
+async function runProbe(probe: ReadinessProbe): Promise<ProbeResult> {
+  const checkedAt = new Date().toISOString();
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    await Promise.race([
+      Promise.resolve().then(() => probe.check()),
+      new Promise((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`timed out after ${PROBE_TIMEOUT_MS} ms`)),
+          PROBE_TIMEOUT_MS
+        );
+      }),
+    ]);
+    return { name: probe.name, ok: true, checkedAt };
+  } catch (error) {
+    return {
+      name: probe.name,
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+      checkedAt,
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// ============================================================================
+// ROUTER
+// ============================================================================
+
+/**
+ * Builds the health and metrics router. Mount it at the server root.
+ * @param options.metrics - The metrics served on /metrics.
+ * @param options.probes - The checks /readyz runs.
+ */
+export function createHealthRouter(options: {
+  metrics: AgentMetrics;
+  probes: ReadinessProbe[];
+}): Router {
+  const router = express.Router();
+  const cache = new Map<string, { result: ProbeResult; expiresAt: number }>();
+
+  /**
+   * Runs a probe, or returns its last result while it is fresh.
+   */
+  const check = async (probe: ReadinessProbe): Promise<ProbeResult> => {
+    const cached = cache.get(probe.name);
+    if (cached && cached.expiresAt > Date.now()) return cached.result;
+    const result = await runProbe(probe);
+    if (probe.cacheMs) {
+      cache.set(probe.name, { result, expiresAt: Date.now() + probe.cacheMs });
+    }
+    if (!result.ok) {
+      log.warn("Readiness probe failed", {
+        probe: probe.name,
+        error: result.error,
+      });
+    }
+    return result;
+  };
+
+  router.get("/healthz", (_req, res) => {
+    res.json({ status: "ok", uptimeSeconds: Math.round(process.uptime()) });
+  });
+
+  router.get("/readyz", async (_req, res) => {
+    const checks = await Promise.all(options.probes.map(check));
+    const ready = checks.every((result) => result.ok);
+    res.status(ready ? 200 : 503).json({
+      status: ready ? "ready" : "not_ready",
+      checks,
+    });
+  });
+
+  router.get("/metrics", (_req, res) => {
+    res.type(METRICS_CONTENT_TYPE).send(options.metrics.render());
+  });
+
+  return router;
+}
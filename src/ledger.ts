@@ -0,0 +1,207 @@
+/**
+ * Append-only usage ledger. Every finished task appends one JSON line with
+ * who ran which skill, what it cost and how it ended, so operators can
+ * reconcile revenue and spot abusive subscribers.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { logger } from "./logger";
+
+const log = logger.child({ component: "ledger" });
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * One ledger line, written when a task publishes its final event.
+ */
+export interface UsageEntry {
+  taskId: string;
+  contextId: string;
+  /** Subscriber ID, or "anonymous" when the caller is unknown. */
+  subscriber: string;
+  skillId: string;
+  credits: number;
+  /** Final state of the task (completed, failed, canceled, ...). */
+  state: string;
+  /** Time from the start of execute() to the final event. */
+  durationMs: number;
+  /** When the task finished (ISO 8601). */
+  timestamp: string;
+}
+
+/**
+ * Dimensions usage can be grouped by.
+ */
+export type UsageGroupBy = "subscriber" | "skill" | "day";
+
+/**
+ * Usage totals of one group.
+ */
+export interface UsageSummary {
+  key: string;
+  tasks: number;
+  credits: number;
+  /** Number of tasks per final state. */
+  states: Record<string, number>;
+  averageDurationMs: number;
+}
+
+// ============================================================================
+// LEDGER
+// ============================================================================
+
+/**
+ * Ledger stored as a JSON Lines file. Appends are serialized so lines never
+ * interleave; existing lines are never rewritten.
+ */
+export class UsageLedger {
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly file: string) {}
+
+  /**
+   * Creates the ledger directory if needed.
+   */
+  async init(): Promise<void> {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+  }
+
+  /**
+   * Appends an entry.
+   * @param entry - The usage entry.
+   */
+  append(entry: UsageEntry): Promise<void> {
+    const write = this.queue.then(() =>
+      fs.appendFile(this.file, `${JSON.stringify(entry)}\n`, "utf8")
+    );
+    this.queue = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Waits until every pending append is written.
+   */
+  async flush(): Promise<void> {
+    await this.queue;
+  }
+
+  /**
+   * Reads every entry, skipping lines that cannot be parsed (e.g. a line
+   * cut short by a crash).
+   * @param range - Optional inclusive time range to filter by.
+   */
+  async read(range: { from?: Date; to?: Date } = {}): Promise<UsageEntry[]> {
+    await this.queue;
+    let content: string;
+    try {
+      content = await fs.readFile(this.file, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+    const entries: UsageEntry[] = [];
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as UsageEntry;
+        const at = new Date(entry.timestamp);
+        if (range.from && at < range.from) continue;
+        if (range.to && at > range.to) continue;
+        entries.push(entry);
+      } catch {
+        log.warn("Skipping unreadable ledger line", { file: this.file });
+      }
+    }
+    return entries;
+  }
+}
+
+// ============================================================================
+// AGGREGATION
+// ============================================================================
+
+/**
+ * Returns the group key of an entry.
+ */
+function groupKey(entry: UsageEntry, groupBy: UsageGroupBy): string {
+  switch (groupBy) {
+    case "subscriber":
+      return entry.subscriber;
+    case "skill":
+      return entry.skillId;
+    case "day":
+      return entry.timestamp.slice(0, 10);
+  }
+}
+
+/**
+ * Aggregates ledger entries by subscriber, skill or UTC day.
+ * @param entries - The entries to aggregate.
+ * @param groupBy - The dimension to group by.
+ * @returns One summary per group, sorted by key.
+ */
+export function aggregateUsage(
+  entries: UsageEntry[],
+  groupBy: UsageGroupBy
+): UsageSummary[] {
+  const groups = new Map<string, UsageSummary & { totalDurationMs: number }>();
+  for (const entry of entries) {
+    const key = groupKey(entry, groupBy);
+    const group = groups.get(key) ?? {
+      key,
+      tasks: 0,
+      credits: 0,
+      states: {},
+      averageDurationMs: 0,
+      totalDurationMs: 0,
+    };
+    group.tasks += 1;
+    group.credits += entry.credits;
+    group.states[entry.state] = (group.states[entry.state] ?? 0) + 1;
+    group.totalDurationMs += entry.durationMs;
+    groups.set(key, group);
+  }
+  return Array.from(groups.values())
+    .sort((a, b) => a.key.localeCompare(b.key))
+    .map(({ totalDurationMs, ...group }) => ({
+      ...group,
+      averageDurationMs: Math.round(totalDurationMs / group.tasks),
+    }));
+}
+
+/**
+ * Escapes a CSV field.
+ */
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Formats usage summaries as CSV, with one column per final state.
+ * @param summaries - The summaries to format.
+ * @param groupBy - The dimension used as first column.
+ */
+export function usageToCsv(
+  summaries: UsageSummary[],
+  groupBy: UsageGroupBy
+): string {
+  const states = Array.from(
+    new Set(summaries.flatMap((summary) => Object.keys(summary.states)))
+  ).sort();
+  const header = [groupBy, "tasks", "credits", "averageDurationMs", ...states];
+  const rows = summaries.map((summary) => [
+    summary.key,
+    summary.tasks,
+    summary.credits,
+    summary.averageDurationMs,
+    ...states.map((state) => summary.states[state] ?? 0),
+  ]);
+  return [header, ...rows]
+    .map((row) => row.map(csvField).join(","))
+    .join("\n")
+    .concat("\n");
+}
@@ -0,0 +1,233 @@
+/**
+ * Structured logger shared by the agent and the client. Every line is one
+ * JSON object (or a readable line with the "pretty" format) carrying its
+ * level, message and fields; child loggers add fields such as taskId to
+ * every line they write. Bearer tokens, JWTs, API keys, push credentials
+ * and registered secrets are redacted before anything is written.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * - `json`: one JSON object per line, for log pipelines.
+ * - `pretty`: "time LEVEL message key=value", for reading in a terminal.
+ */
+export type LogFormat = "json" | "pretty";
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Settings shared by a root logger and all its children.
+ */
+interface LoggerSettings {
+  level: LogLevel;
+  format: LogFormat;
+  /** Exact values to redact wherever they appear (API keys, admin token). */
+  secrets: Set<string>;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export const LOG_LEVELS = Object.keys(LEVELS) as LogLevel[];
+export const LOG_FORMATS: LogFormat[] = ["json", "pretty"];
+
+const REDACTED = "[REDACTED]";
+
+/** Field names whose values are always redacted. */
+const SENSITIVE_KEY =
+  /(authorization|token|api[-_]?key|secret|password|credentials?|signature)$/i;
+
+/** Secrets embedded in text: auth headers, JWTs and "env:JWT" API keys. */
+const SENSITIVE_TEXT: Array<[RegExp, string]> = [
+  [/\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/gi, `$1 ${REDACTED}`],
+  [/\b(?:[\w-]+:)?eyJ[\w-]*\.[\w-]+\.[\w-]*/g, REDACTED],
+];
+
+/** Shortest registered secret; shorter values would redact ordinary words. */
+const MIN_SECRET_LENGTH = 8;
+
+/** Nesting depth beyond which logged values are elided. */
+const MAX_DEPTH = 8;
+
+// ============================================================================
+// REDACTION
+// ============================================================================
+
+/**
+ * Redacts the secrets in a string.
+ */
+function redactText(text: string, secrets: Set<string>): string {
+  let redacted = text;
+  for (const secret of secrets) {
+    if (redacted.includes(secret)) redacted = redacted.split(secret).join(REDACTED);
+  }
+  for (const [pattern, replacement] of SENSITIVE_TEXT) {
+    redacted = redacted.replace(pattern, replacement);
+  }
+  return redacted;
+}
+
+/**
+ * Returns a copy of a value safe to log: secrets redacted, errors expanded
+ * to their name, message and stack, bigints as strings, cycles and deep
+ * nesting elided.
+ * @param value - The value to log.
+ * @param secrets - Exact values to redact.
+ */
+export function redact(
+  value: unknown,
+  secrets: Set<string> = new Set(),
+  depth = 0,
+  seen: WeakSet<object> = new WeakSet()
+): unknown {
+  if (typeof value === "string") return redactText(value, secrets);
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value !== "object" || value === null) return value;
+  if (seen.has(value)) return "[Circular]";
+  if (depth >= MAX_DEPTH) return "[Truncated]";
+  seen.add(value);
+
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactText(value.message, secrets),
+      ...(value.stack ? { stack: redactText(value.stack, secrets) } : {}),
+    };
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, secrets, depth + 1, seen));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SENSITIVE_KEY.test(key) && item !== undefined && item !== null && item !== ""
+        ? REDACTED
+        : redact(item, secrets, depth + 1, seen),
+    ])
+  );
+}
+
+// ============================================================================
+// LOGGER
+// ============================================================================
+
+export class Logger {
+  /**
+   * @param settings - Level, format and secrets, shared with child loggers.
+   * @param bindings - Fields added to every line.
+   */
+  constructor(
+    private readonly settings: LoggerSettings,
+    private readonly bindings: LogFields = {}
+  ) {}
+
+  /**
+   * Creates a logger adding fields to every line (e.g. taskId).
+   */
+  child(bindings: LogFields): Logger {
+    return new Logger(this.settings, { ...this.bindings, ...bindings });
+  }
+
+  /**
+   * Adds or replaces fields of this logger, for values only known later
+   * (e.g. the skill a task was routed to).
+   */
+  assign(bindings: LogFields): void {
+    Object.assign(this.bindings, bindings);
+  }
+
+  /**
+   * Returns true if lines of a level are written.
+   */
+  isLevelEnabled(level: LogLevel): boolean {
+    return LEVELS[level] >= LEVELS[this.settings.level];
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write("error", message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (!this.isLevelEnabled(level)) return;
+    const { secrets, format } = this.settings;
+    const entry = redact(
+      { ...this.bindings, ...fields },
+      secrets
+    ) as LogFields;
+    const time = new Date().toISOString();
+    const msg = redactText(message, secrets);
+
+    let line: string;
+    if (format === "pretty") {
+      const pairs = Object.entries(entry)
+        .filter(([, value]) => value !== undefined)
+        .map(
+          ([key, value]) =>
+            `${key}=${typeof value === "string" ? value : JSON.stringify(value)}`
+        );
+      line = [time, level.toUpperCase().padEnd(5), msg, ...pairs].join(" ");
+    } else {
+      line = JSON.stringify({ time, level, msg, ...entry });
+    }
+    (LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout).write(
+      `${line}\n`
+    );
+  }
+}
+
+/**
+ * Reads a level or format from the environment, before the configuration
+ * is loaded, so configuration errors are logged as asked.
+ */
+function fromEnv<T extends string>(name: string, allowed: T[], fallback: T): T {
+  const value = process.env[name]?.toLowerCase() as T | undefined;
+  return value && allowed.includes(value) ? value : fallback;
+}
+
+const rootSettings: LoggerSettings = {
+  level: fromEnv("LOG_LEVEL", LOG_LEVELS, "info"),
+  format: fromEnv("LOG_FORMAT", LOG_FORMATS, "json"),
+  secrets: new Set(),
+};
+
+/**
+ * The root logger. Modules log through children carrying a `component`.
+ */
+export const logger = new Logger(rootSettings);
+
+/**
+ * Applies the configured level and format and registers secrets to redact.
+ * @param options.level - Lowest level written.
+ * @param options.format - Output format.
+ * @param options.secrets - Exact values to redact (empty values are ignored).
+ */
+export function configureLogger(options: {
+  level?: LogLevel;
+  format?: LogFormat;
+  secrets?: Array<string | undefined>;
+}): void {
+  if (options.level) rootSettings.level = options.level;
+  if (options.format) rootSettings.format = options.format;
+  for (const secret of options.secrets ?? []) {
+    if (secret && secret.length >= MIN_SECRET_LENGTH) {
+      rootSettings.secrets.add(secret);
+    }
+  }
+}
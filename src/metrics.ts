@@ -0,0 +1,234 @@
+/**
+ * Prometheus metrics of the agent, rendered in the text exposition format.
+ * Task, credit and latency metrics are recorded from the final events the
+ * Executor publishes; push outcomes from the deliveries it starts; active
+ * streams are read from the quota counters when scraped.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type Labels = Record<string, string>;
+
+/** Content type of the Prometheus text exposition format. */
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/** Bucket bounds of the handler latency histogram, in seconds. */
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+/** Bucket bounds of the push delivery attempts histogram. */
+const ATTEMPT_BUCKETS = [1, 2, 3, 5, 10];
+
+/**
+ * Escapes a label value ("\", '"' and newlines).
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+/**
+ * Formats labels as `{name="value",...}`, or an empty string without labels.
+ */
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabel(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+// ============================================================================
+// METRIC TYPES
+// ============================================================================
+
+/**
+ * A monotonically increasing value per label set.
+ */
+class Counter {
+  private readonly values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = formatLabels(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += value;
+    this.values.set(key, entry);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...Array.from(this.values.values()).map(
+        ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+      ),
+    ];
+  }
+}
+
+/**
+ * A value read when the metrics are scraped.
+ */
+class Gauge {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly read: () => number
+  ) {}
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+      `${this.name} ${this.read()}`,
+    ];
+  }
+}
+
+/**
+ * Observations counted in cumulative buckets, per label set.
+ */
+class Histogram {
+  private readonly series = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly buckets: number[]
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = formatLabels(labels);
+    const entry = this.series.get(key) ?? {
+      labels,
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry.counts[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+    this.series.set(key, entry);
+  }
+
+  render(): string[] {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} histogram`,
+    ];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`
+        );
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+        `${this.name}_sum${formatLabels(labels)} ${sum}`,
+        `${this.name}_count${formatLabels(labels)} ${count}`
+      );
+    }
+    return lines;
+  }
+}
+
+// ============================================================================
+// AGENT METRICS
+// ============================================================================
+
+export class AgentMetrics {
+  private readonly tasks = new Counter(
+    "a2a_tasks_total",
+    "Tasks finished, by skill and final state."
+  );
+  private readonly credits = new Counter(
+    "a2a_credits_total",
+    "Credits reported in final events, by skill."
+  );
+  private readonly latency = new Histogram(
+    "a2a_handler_duration_seconds",
+    "Time from the start of a task to its final event, by skill.",
+    LATENCY_BUCKETS
+  );
+  private readonly pushDeliveries = new Counter(
+    "a2a_push_deliveries_total",
+    "Push notifications, by outcome (delivered or failed)."
+  );
+  private readonly pushAttempts = new Histogram(
+    "a2a_push_delivery_attempts",
+    "Attempts per push notification, by outcome.",
+    ATTEMPT_BUCKETS
+  );
+  private readonly streams: Gauge;
+  private readonly startedAt = Date.now();
+
+  /**
+   * @param activeStreams - Returns the number of open SSE connections.
+   */
+  constructor(activeStreams: () => number) {
+    this.streams = new Gauge(
+      "a2a_active_streams",
+      "SSE connections currently open (message/stream and tasks/resubscribe).",
+      activeStreams
+    );
+  }
+
+  /**
+   * Records a task's final event.
+   * @param skillId - The skill that ran, or "unknown".
+   * @param state - The final state.
+   * @param credits - The credits reported (after clamping).
+   * @param durationMs - Time from the start of the task to its final event.
+   */
+  recordTask(
+    skillId: string,
+    state: string,
+    credits: number,
+    durationMs: number
+  ): void {
+    this.tasks.inc({ skill: skillId, state });
+    this.credits.inc({ skill: skillId }, credits);
+    this.latency.observe({ skill: skillId }, durationMs / 1000);
+  }
+
+  /**
+   * Records the outcome of a push notification.
+   * @param delivered - Whether the webhook accepted it.
+   * @param attempts - The attempts it took.
+   */
+  recordPushDelivery(delivered: boolean, attempts: number): void {
+    const outcome = delivered ? "delivered" : "failed";
+    this.pushDeliveries.inc({ outcome });
+    this.pushAttempts.observe({ outcome }, attempts);
+  }
+
+  /**
+   * Renders every metric in the Prometheus text exposition format.
+   */
+  render(): string {
+    const uptime = new Gauge(
+      "a2a_uptime_seconds",
+      "Seconds since the agent started.",
+      () => Math.round((Date.now() - this.startedAt) / 1000)
+    );
+    return (
+      [
+        this.tasks,
+        this.credits,
+        this.latency,
+        this.streams,
+        this.pushDeliveries,
+        this.pushAttempts,
+        uptime,
+      ]
+        .flatMap((metric) => metric.render())
+        .join("\n") + "\n"
+    );
+  }
+}
@@ -0,0 +1,330 @@
+/**
+ * Declarative pricing engine. Credit costs per skill come from one table,
+ * built from the skill defaults and overridden from config, with either a
+ * fixed amount or a formula over the usage a handler reports. Every amount
+ * is clamped to the plan's credit bounds, and the AgentCard cost
+ * descriptions are generated from the same table.
+ */
+
+import { evaluateExpression, CalculationError } from "./calculator";
+import { ConfigError } from "./config";
+import type { Skill } from "./skills";
+import { logger } from "./logger";
+
+const log = logger.child({ component: "pricing" });
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Price of a skill: either a fixed amount of credits or a formula.
+ * Formulas use the calculator syntax, e.g. "2 + ceil(words / 10)".
+ */
+export interface PriceRule {
+  credits?: number;
+  formula?: string;
+  /** Text shown in cost descriptions instead of the amount or formula. */
+  description?: string;
+}
+
+/**
+ * Price of a skill as listed to subscribers.
+ */
+export interface SkillPrice extends PriceRule {
+  /** Short label, e.g. "3 credits" or "2 + ceil(words / 10) credits". */
+  label: string;
+  /** Fewest credits a successful run costs, within the plan bounds. */
+  minimumCredits: number;
+}
+
+/**
+ * Pricing configuration, usually loaded from the config file.
+ */
+export interface PricingConfig {
+  /** Credits charged when a skill fails after running. */
+  failureCredits?: number;
+  /** Per-skill price overrides, keyed by skill ID. */
+  skills?: Record<string, PriceRule>;
+}
+
+/**
+ * Credit bounds of the plan (creditsConfig.minAmount / maxAmount).
+ */
+export interface PlanBounds {
+  minAmount: number;
+  maxAmount: number;
+}
+
+/**
+ * Usage reported by a handler, available as formula variables.
+ */
+export interface UsageMetrics {
+  /** Characters of input processed. */
+  inputChars?: number;
+  /** Words of input processed (e.g. text to translate). */
+  words?: number;
+  /** Chunks or messages streamed. */
+  chunks?: number;
+  [metric: string]: number | undefined;
+}
+
+/** Variables every formula may reference; unreported ones are 0. */
+export const USAGE_VARIABLES = ["inputChars", "words", "chunks", "days"];
+
+const DEFAULT_FAILURE_CREDITS = 1;
+
+// ============================================================================
+// ENGINE
+// ============================================================================
+
+export class PricingEngine {
+  private constructor(
+    private readonly rules: Map<string, PriceRule>,
+    private readonly failureCredits: number,
+    public readonly bounds: PlanBounds
+  ) {}
+
+  /**
+   * Builds the pricing table from the skills' default credits and the
+   * configured overrides, and validates it against the plan bounds.
+   * @param skills - The registered skills (including the fallback).
+   * @param config - Pricing overrides from the config.
+   * @param bounds - The plan's credit bounds.
+   * @throws ConfigError listing every invalid price.
+   */
+  static create(
+    skills: Skill[],
+    config: PricingConfig,
+    bounds: PlanBounds
+  ): PricingEngine {
+    const issues: string[] = [];
+    const rules = new Map<string, PriceRule>();
+    const skillIds = new Set(skills.map((skill) => skill.id));
+
+    for (const skill of skills) {
+      rules.set(
+        skill.id,
+        skill.formula !== undefined
+          ? { formula: skill.formula }
+          : { credits: skill.credits }
+      );
+    }
+    for (const [skillId, rule] of Object.entries(config.skills || {})) {
+      if (!skillIds.has(skillId)) {
+        issues.push(`pricing.skills.${skillId}: unknown skill`);
+        continue;
+      }
+      rules.set(skillId, rule);
+    }
+
+    for (const [skillId, rule] of rules) {
+      issues.push(
+        ...validateRule(rule, bounds).map(
+          (issue) => `pricing.skills.${skillId}: ${issue}`
+        )
+      );
+    }
+
+    const failureCredits = config.failureCredits ?? DEFAULT_FAILURE_CREDITS;
+    if (!isWithinBounds(failureCredits, bounds)) {
+      issues.push(
+        `pricing.failureCredits: ${failureCredits} is outside the plan bounds [${bounds.minAmount}, ${bounds.maxAmount}]`
+      );
+    }
+
+    if (issues.length > 0) throw new ConfigError(issues);
+    return new PricingEngine(rules, failureCredits, bounds);
+  }
+
+  /**
+   * Computes the credits for a successful run of a skill.
+   * @param skillId - The skill ID.
+   * @param usage - The usage reported by the handler.
+   * @returns The credits, within the plan bounds: a formula that evaluates
+   * to 0 or less, or fails to evaluate, is charged the plan's minimum.
+   */
+  price(skillId: string, usage: UsageMetrics = {}): number {
+    const rule = this.rules.get(skillId);
+    if (!rule) throw new Error(`No price defined for skill "${skillId}"`);
+    if (rule.formula === undefined) return this.bound(rule.credits ?? 0);
+    const variables = Object.fromEntries(
+      USAGE_VARIABLES.map((name) => [name, usage[name] ?? 0])
+    );
+    for (const [name, value] of Object.entries(usage)) {
+      if (value !== undefined) variables[name] = value;
+    }
+    const value = this.evaluate(skillId, rule.formula, variables);
+    return value === undefined ? this.bounds.minAmount : this.bound(value);
+  }
+
+  /**
+   * Evaluates a price formula, logging a warning when it fails (e.g. a
+   * division by a usage that is 0).
+   * @returns The value, or undefined if the formula cannot be evaluated.
+   */
+  private evaluate(
+    skillId: string,
+    formula: string,
+    variables: Record<string, number>
+  ): number | undefined {
+    try {
+      return evaluateExpression(formula, { variables }).value;
+    } catch (error) {
+      log.warn("Price formula failed, charging the plan minimum", {
+        skillId,
+        formula,
+        variables,
+        error: error instanceof Error ? error.message : error,
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Credits charged when a skill fails after running.
+   */
+  failurePrice(): number {
+    return this.clamp(this.failureCredits);
+  }
+
+  /**
+   * Clamps a published charge to the plan bounds. Zero means "not billed"
+   * (quotes, input requests, refused or cancelled work) and is kept.
+   * @param credits - The computed credits.
+   */
+  clamp(credits: number): number {
+    if (!Number.isFinite(credits) || credits <= 0) return 0;
+    return this.bound(credits);
+  }
+
+  /**
+   * Brings a charge within the plan bounds, rounding fractions up.
+   */
+  private bound(credits: number): number {
+    const rounded = Math.ceil(credits);
+    const clamped = Math.min(
+      this.bounds.maxAmount,
+      Math.max(this.bounds.minAmount, rounded)
+    );
+    if (clamped !== rounded) {
+      log.warn("Credits clamped to the plan bounds", {
+        credits,
+        clamped,
+        minAmount: this.bounds.minAmount,
+        maxAmount: this.bounds.maxAmount,
+      });
+    }
+    return clamped;
+  }
+
+  /**
+   * Returns a short label for a skill price, e.g. "3 credits" or
+   * "2 + ceil(words / 10) credits".
+   * @param skillId - The skill ID.
+   */
+  label(skillId: string): string {
+    const rule = this.rules.get(skillId);
+    if (!rule) return "unpriced";
+    if (rule.description) return rule.description;
+    if (rule.formula !== undefined) return `${rule.formula} credits`;
+    return `${rule.credits} credit${rule.credits === 1 ? "" : "s"}`;
+  }
+
+  /**
+   * Returns the price rule of a skill with its label and the fewest
+   * credits a successful run can cost.
+   * @param skillId - The skill ID.
+   */
+  describe(skillId: string): SkillPrice {
+    const rule = this.rules.get(skillId);
+    if (!rule) throw new Error(`No price defined for skill "${skillId}"`);
+    let base = rule.credits ?? 0;
+    if (rule.formula !== undefined) {
+      const variables = Object.fromEntries(
+        USAGE_VARIABLES.map((name) => [name, 0])
+      );
+      const value = this.evaluate(skillId, rule.formula, variables);
+      base = value === undefined ? this.bounds.minAmount : Math.ceil(value);
+    }
+    return {
+      ...rule,
+      label: this.label(skillId),
+      minimumCredits: Math.min(
+        this.bounds.maxAmount,
+        Math.max(this.bounds.minAmount, base)
+      ),
+    };
+  }
+
+  /**
+   * Builds the marketing-level cost description of the public AgentCard.
+   * Per-skill prices are only in the authenticated extended card.
+   */
+  costDescription(): string {
+    return `Variable credits based on operation complexity, from ${this.bounds.minAmount} to ${this.bounds.maxAmount} credits per request`;
+  }
+
+  /**
+   * Builds the per-skill cost description of the extended AgentCard.
+   * @param skills - The skills to describe.
+   */
+  skillCostDescription(skills: Skill[]): string {
+    const costs = skills
+      .map((skill) => {
+        const rule = this.rules.get(skill.id);
+        const amount =
+          rule?.description ?? rule?.formula ?? String(rule?.credits ?? 0);
+        return `${skill.label} (${amount})`;
+      })
+      .join(", ");
+    return `Variable credits based on operation complexity: ${costs}`;
+  }
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function isWithinBounds(credits: number, bounds: PlanBounds): boolean {
+  return credits >= bounds.minAmount && credits <= bounds.maxAmount;
+}
+
+/**
+ * Validates a price rule.
+ * @returns The list of issues (empty when valid).
+ */
+function validateRule(rule: PriceRule, bounds: PlanBounds): string[] {
+  const hasCredits = rule.credits !== undefined;
+  const hasFormula = rule.formula !== undefined;
+  if (hasCredits === hasFormula) {
+    return ['set exactly one of "credits" or "formula"'];
+  }
+  if (hasCredits) {
+    const credits = rule.credits as number;
+    if (!Number.isInteger(credits)) return ["credits must be an integer"];
+    if (!isWithinBounds(credits, bounds)) {
+      return [
+        `${credits} credits is outside the plan bounds [${bounds.minAmount}, ${bounds.maxAmount}]`,
+      ];
+    }
+    return [];
+  }
+  // Dry-run the formula so syntax errors, unknown variables and divisions
+  // by a usage of 0 fail at startup
+  try {
+    for (const usage of [1, 0]) {
+      const variables = Object.fromEntries(
+        USAGE_VARIABLES.map((name) => [name, usage])
+      );
+      evaluateExpression(rule.formula as string, { variables });
+    }
+    return [];
+  } catch (error) {
+    return [
+      `invalid formula "${rule.formula}": ${
+        error instanceof CalculationError ? error.message : String(error)
+      }`,
+    ];
+  }
+}
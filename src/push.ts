@@ -0,0 +1,585 @@
+/**
+ * Push notification delivery. A middleware in front of the A2A routes
+ * records each task's PushNotificationConfig once the A2A server accepted
+ * its registration by the subscriber who owns the task, so tasks can wait
+ * for a real registration. Final task events are then
+ * POSTed to the webhook with retries and exponential backoff, authenticated
+ * and signed with the config's token and scheme, and every attempt is kept
+ * in a per-task delivery log. Deliveries still in flight can be flushed
+ * before the process exits.
+ */
+
+import crypto from "crypto";
+import { v4 as uuidv4 } from "uuid";
+import type { RequestHandler, Response } from "express";
+import type {
+  PushNotificationConfig,
+  TaskStatusUpdateEvent,
+} from "@nevermined-io/payments";
+import { TaskCancelledError } from "./cancellation";
+import type { CancellationToken } from "./cancellation";
+import { verifiedSubscriber } from "./subscribers";
+import { logger } from "./logger";
+import type { Logger } from "./logger";
+
+const log = logger.child({ component: "push" });
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Configuration of push notification delivery.
+ */
+export interface PushDeliveryConfig {
+  /** How long a push notification task waits for its config to be registered. */
+  configTimeoutSeconds: number;
+  /** Attempts per notification, the first one included. */
+  maxAttempts: number;
+  /** Delay before the first retry; doubled for each further retry. */
+  retryBaseMs: number;
+  /** Longest delay between two attempts. */
+  retryMaxMs: number;
+  /** Timeout of one webhook request. */
+  requestTimeoutMs: number;
+}
+
+/**
+ * Body POSTed to the webhook.
+ */
+export interface PushNotificationPayload {
+  /** Same for every attempt of one notification, so receivers can dedupe. */
+  deliveryId: string;
+  taskId: string;
+  contextId: string;
+  status: TaskStatusUpdateEvent["status"];
+  final: boolean;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * One delivery attempt, as kept in the delivery log.
+ */
+export interface DeliveryAttempt {
+  deliveryId: string;
+  attempt: number;
+  url: string;
+  /** When the attempt started (ISO 8601). */
+  timestamp: string;
+  /** HTTP status of the response, if one was received. */
+  status?: number;
+  /** Network error or timeout, if no response was received. */
+  error?: string;
+  durationMs: number;
+  delivered: boolean;
+}
+
+/** Header carrying the delivery ID (same across retries). */
+export const PUSH_DELIVERY_ID_HEADER = "x-a2a-delivery-id";
+/** Header carrying the signing time (Unix seconds). */
+export const PUSH_TIMESTAMP_HEADER = "x-a2a-timestamp";
+/** Header carrying the HMAC-SHA256 signature of the timestamp and body. */
+export const PUSH_SIGNATURE_HEADER = "x-a2a-signature";
+/** Header carrying the config's token, as in the A2A specification. */
+export const PUSH_TOKEN_HEADER = "x-a2a-notification-token";
+
+/**
+ * Returns the ID of the subscriber a running task belongs to, if known.
+ */
+export type TaskOwnerResolver = (taskId: string) => string | undefined;
+
+/** JSON-RPC methods that register a push notification config. */
+const SET_CONFIG_METHODS = [
+  "tasks/pushNotificationConfig/set",
+  "tasks/pushNotification/set",
+];
+
+/** How long a config sent with a message waits for its task to start. */
+const MESSAGE_CONFIG_TTL_MS = 5 * 60 * 1000;
+
+/** JSON-RPC error codes, as in the A2A specification. */
+const INVALID_PARAMS_ERROR_CODE = -32602;
+const TASK_NOT_FOUND_ERROR_CODE = -32001;
+
+/** Tasks whose delivery log is kept; the oldest are dropped first. */
+const MAX_LOGGED_TASKS = 1000;
+
+// ============================================================================
+// SIGNING
+// ============================================================================
+
+/**
+ * Returns the secret notifications of a config are signed with: its token,
+ * or else its authentication credentials.
+ */
+export function pushSigningSecret(
+  config: PushNotificationConfig
+): string | undefined {
+  return config.token || config.authentication?.credentials || undefined;
+}
+
+/**
+ * Signs a notification body: HMAC-SHA256 over "<timestamp>.<body>".
+ * @param body - The raw JSON body.
+ * @param secret - The signing secret.
+ * @param timestamp - Signing time in Unix seconds.
+ * @returns The signature header value, "sha256=<hex>".
+ */
+export function signPushPayload(
+  body: string,
+  secret: string,
+  timestamp: string
+): string {
+  const digest = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `sha256=${digest}`;
+}
+
+/**
+ * Builds the headers of a notification request: the Authorization header
+ * for the first supported scheme of the config (Bearer or Basic), the
+ * config's token, and the signature.
+ * @param config - The webhook's push notification config.
+ * @param body - The raw JSON body.
+ * @param deliveryId - ID of the notification.
+ * @param timestamp - Signing time in Unix seconds.
+ */
+export function pushHeaders(
+  config: PushNotificationConfig,
+  body: string,
+  deliveryId: string,
+  timestamp: string
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    "content-type": "application/json",
+    [PUSH_DELIVERY_ID_HEADER]: deliveryId,
+    [PUSH_TIMESTAMP_HEADER]: timestamp,
+  };
+  const credentials = config.authentication?.credentials;
+  const scheme = config.authentication?.schemes
+    ?.map((name: string) => name.toLowerCase())
+    .find((name: string) => name === "bearer" || name === "basic");
+  if (credentials && scheme) {
+    headers.authorization = `${scheme === "bearer" ? "Bearer" : "Basic"} ${credentials}`;
+  }
+  if (config.token) headers[PUSH_TOKEN_HEADER] = config.token;
+  const secret = pushSigningSecret(config);
+  if (secret) {
+    headers[PUSH_SIGNATURE_HEADER] = signPushPayload(body, secret, timestamp);
+  }
+  return headers;
+}
+
+/**
+ * Returns true if a webhook URL is an absolute http(s) URL.
+ */
+function isWebhookUrl(url: unknown): url is string {
+  if (typeof url !== "string") return false;
+  try {
+    const { protocol } = new URL(url);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Sends a JSON-RPC error response.
+ */
+function sendRpcError(
+  res: Response,
+  id: unknown,
+  code: number,
+  message: string
+): void {
+  res.json({ jsonrpc: "2.0", id: id ?? null, error: { code, message } });
+}
+
+// ============================================================================
+// CONFIG REGISTRY
+// ============================================================================
+
+/**
+ * Push notification configs registered by clients, keyed by taskId, with
+ * the ID of the subscriber who registered them.
+ */
+export class PushConfigRegistry {
+  private readonly configs = new Map<
+    string,
+    { config: PushNotificationConfig; owner: string }
+  >();
+  /** Configs sent with a message, until the message's task starts. */
+  private readonly byMessageId = new Map<
+    string,
+    { config: PushNotificationConfig; owner: string; expiresAt: number }
+  >();
+  private readonly waiters = new Map<
+    string,
+    Array<(config: PushNotificationConfig) => void>
+  >();
+
+  /**
+   * Registers the config of a task and wakes up anyone waiting for it.
+   * A config registered by another subscriber is never replaced.
+   * @param owner - ID of the subscriber who registers the config.
+   * @returns False if the task has a config of another subscriber.
+   */
+  set(taskId: string, config: PushNotificationConfig, owner: string): boolean {
+    const existing = this.configs.get(taskId);
+    if (existing && existing.owner !== owner) return false;
+    this.configs.set(taskId, { config, owner });
+    const waiters = this.waiters.get(taskId) ?? [];
+    this.waiters.delete(taskId);
+    waiters.forEach((resolve) => resolve(config));
+    return true;
+  }
+
+  /**
+   * Returns the config of a task, if one is registered.
+   */
+  get(taskId: string): PushNotificationConfig | undefined {
+    return this.configs.get(taskId)?.config;
+  }
+
+  /**
+   * Forgets the config of a task.
+   */
+  delete(taskId: string): void {
+    this.configs.delete(taskId);
+  }
+
+  /**
+   * Moves a config sent with a message (in `configuration`) to the task the
+   * message started, if the task belongs to the subscriber who sent it.
+   * @param owner - ID of the subscriber the task belongs to.
+   */
+  claimMessage(messageId: string, taskId: string, owner?: string): void {
+    const entry = this.byMessageId.get(messageId);
+    this.byMessageId.delete(messageId);
+    if (entry && entry.owner === owner && !this.configs.has(taskId)) {
+      this.set(taskId, entry.config, entry.owner);
+    }
+  }
+
+  /**
+   * Waits until a config is registered for a task.
+   * @param taskId - The task.
+   * @param timeoutMs - How long to wait.
+   * @param cancellation - Cancellation token of the waiting task.
+   * @returns The config, or undefined if none was registered in time.
+   * @throws TaskCancelledError if the task is cancelled while waiting.
+   */
+  waitFor(
+    taskId: string,
+    timeoutMs: number,
+    cancellation?: CancellationToken
+  ): Promise<PushNotificationConfig | undefined> {
+    const existing = this.configs.get(taskId)?.config;
+    if (existing) return Promise.resolve(existing);
+    if (cancellation?.cancelled) {
+      return Promise.reject(new TaskCancelledError(taskId));
+    }
+
+    return new Promise((resolve, reject) => {
+      const done = () => {
+        clearTimeout(timer);
+        cancellation?.signal.removeEventListener("abort", onAbort);
+        const waiters = (this.waiters.get(taskId) ?? []).filter(
+          (waiter) => waiter !== onConfig
+        );
+        if (waiters.length > 0) this.waiters.set(taskId, waiters);
+        else this.waiters.delete(taskId);
+      };
+      const onConfig = (config: PushNotificationConfig) => {
+        done();
+        resolve(config);
+      };
+      const onAbort = () => {
+        done();
+        reject(new TaskCancelledError(taskId));
+      };
+      const timer = setTimeout(() => {
+        done();
+        resolve(undefined);
+      }, timeoutMs);
+      cancellation?.signal.addEventListener("abort", onAbort, { once: true });
+      this.waiters.set(taskId, [...(this.waiters.get(taskId) ?? []), onConfig]);
+    });
+  }
+
+  /**
+   * Builds the middleware that records push notification configs from
+   * `tasks/pushNotificationConfig/set` requests and from messages sent with
+   * a `configuration.pushNotificationConfig`. Only the verified subscriber
+   * who owns a task can register its config; other callers get the same
+   * error as for an unknown task. A `set` request's config is recorded once
+   * the A2A server answered it successfully; a message's config once the
+   * Executor claims it for the message's task. Mount it after the
+   * SubscriberDirectory middleware, which verifies the caller.
+   * @param taskOwner - Resolves the subscriber a running task belongs to.
+   */
+  middleware(taskOwner: TaskOwnerResolver): RequestHandler {
+    return (req, res, next) => {
+      const method = req.body?.method;
+      const params = req.body?.params;
+      const caller = verifiedSubscriber(res);
+      if (SET_CONFIG_METHODS.includes(method) && caller) {
+        const taskId = params?.taskId ?? params?.id;
+        const config = params?.pushNotificationConfig;
+        if (typeof taskId === "string" && taskOwner(taskId) !== caller.id) {
+          log.warn("Push notification config refused: not the task's owner", {
+            taskId,
+            subscriber: caller.id,
+          });
+          sendRpcError(
+            res,
+            req.body?.id,
+            TASK_NOT_FOUND_ERROR_CODE,
+            "Task not found"
+          );
+          return;
+        }
+        if (config && !isWebhookUrl(config.url)) {
+          sendRpcError(
+            res,
+            req.body?.id,
+            INVALID_PARAMS_ERROR_CODE,
+            "pushNotificationConfig.url must be an http(s) URL"
+          );
+          return;
+        }
+        if (typeof taskId === "string" && config) {
+          // Record the config only if the A2A server accepts it
+          const json = res.json.bind(res);
+          res.json = (body) => {
+            if (res.statusCode < 400 && body?.result && !body.error) {
+              this.register(taskId, config, caller.id);
+            }
+            return json(body);
+          };
+        }
+      }
+      const messageId = params?.message?.messageId;
+      const messageConfig = params?.configuration?.pushNotificationConfig;
+      if (typeof messageId === "string" && messageConfig) {
+        if (!isWebhookUrl(messageConfig.url)) {
+          sendRpcError(
+            res,
+            req.body?.id,
+            INVALID_PARAMS_ERROR_CODE,
+            "pushNotificationConfig.url must be an http(s) URL"
+          );
+          return;
+        }
+        this.prune();
+        if (caller && !this.byMessageId.has(messageId)) {
+          this.byMessageId.set(messageId, {
+            config: messageConfig,
+            owner: caller.id,
+            expiresAt: Date.now() + MESSAGE_CONFIG_TTL_MS,
+          });
+        }
+      }
+      next();
+    };
+  }
+
+  /**
+   * Registers a config accepted by the A2A server, logging the outcome.
+   */
+  private register(
+    taskId: string,
+    config: PushNotificationConfig,
+    owner: string
+  ): void {
+    if (this.set(taskId, config, owner)) {
+      log.info("Push notification config registered", {
+        taskId,
+        url: config.url,
+      });
+    } else {
+      log.warn("Push notification config of another subscriber kept", {
+        taskId,
+        subscriber: owner,
+      });
+    }
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [messageId, entry] of this.byMessageId) {
+      if (entry.expiresAt <= now) this.byMessageId.delete(messageId);
+    }
+  }
+}
+
+// ============================================================================
+// NOTIFIER
+// ============================================================================
+
+/**
+ * Returns true if a failed attempt is worth retrying: no response, a
+ * timeout, throttling or a server error.
+ */
+function isRetryable(status: number | undefined): boolean {
+  return (
+    status === undefined || status === 408 || status === 429 || status >= 500
+  );
+}
+
+/**
+ * Delivers push notifications and keeps their delivery log.
+ */
+export class PushNotifier {
+  /** Delivery attempts, per taskId. */
+  private readonly log = new Map<string, DeliveryAttempt[]>();
+  /** Deliveries not finished yet, with their taskId. */
+  private readonly pending = new Map<Promise<boolean>, string>();
+
+  /**
+   * @param config - Retry and timeout settings.
+   * @param sleep - Waits between attempts (replaceable in tests).
+   */
+  constructor(
+    private readonly config: PushDeliveryConfig,
+    private readonly sleep: (ms: number) => Promise<void> = (ms) =>
+      new Promise((resolve) => setTimeout(resolve, ms))
+  ) {}
+
+  /**
+   * Delivers a status-update event to a webhook, retrying with exponential
+   * backoff until it is accepted (2xx), a non-retryable status is returned
+   * or the attempts run out.
+   * @param config - The task's push notification config.
+   * @param event - The status-update to deliver.
+   * @param taskLog - Where attempts are logged (e.g. the task's logger).
+   * @returns Whether the webhook accepted the notification.
+   */
+  deliver(
+    config: PushNotificationConfig,
+    event: TaskStatusUpdateEvent,
+    taskLog: Logger = log.child({ taskId: event.taskId })
+  ): Promise<boolean> {
+    const delivery = this.send(config, event, taskLog);
+    this.pending.set(delivery, event.taskId);
+    const settle = () => this.pending.delete(delivery);
+    delivery.then(settle, settle);
+    return delivery;
+  }
+
+  /**
+   * Waits for the deliveries in flight, retries included.
+   * @param timeoutMs - How long to wait.
+   * @returns The taskIds of the deliveries still unfinished after the timeout.
+   */
+  async flush(timeoutMs: number): Promise<string[]> {
+    if (this.pending.size > 0) {
+      let timer: NodeJS.Timeout | undefined;
+      await Promise.race([
+        Promise.allSettled(this.pending.keys()),
+        new Promise((resolve) => {
+          timer = setTimeout(resolve, timeoutMs);
+        }),
+      ]);
+      clearTimeout(timer);
+    }
+    return Array.from(this.pending.values());
+  }
+
+  /**
+   * Posts a notification until it is accepted or the attempts run out.
+   */
+  private async send(
+    config: PushNotificationConfig,
+    event: TaskStatusUpdateEvent,
+    taskLog: Logger
+  ): Promise<boolean> {
+    const payload: PushNotificationPayload = {
+      deliveryId: uuidv4(),
+      taskId: event.taskId,
+      contextId: event.contextId,
+      status: event.status,
+      final: event.final,
+      metadata: event.metadata,
+    };
+    const body = JSON.stringify(payload);
+
+    for (let attempt = 1; attempt <= this.config.maxAttempts; attempt++) {
+      const startedAt = Date.now();
+      const timestamp = String(Math.floor(startedAt / 1000));
+      let status: number | undefined;
+      let error: string | undefined;
+      let retryAfterMs = 0;
+      try {
+        const response = await fetch(config.url, {
+          method: "POST",
+          headers: pushHeaders(config, body, payload.deliveryId, timestamp),
+          body,
+          signal: AbortSignal.timeout(this.config.requestTimeoutMs),
+        });
+        status = response.status;
+        retryAfterMs = Number(response.headers.get("retry-after")) * 1000 || 0;
+      } catch (caught) {
+        error = caught instanceof Error ? caught.message : String(caught);
+      }
+
+      const delivered = status !== undefined && status >= 200 && status < 300;
+      this.record(event.taskId, {
+        deliveryId: payload.deliveryId,
+        attempt,
+        url: config.url,
+        timestamp: new Date(startedAt).toISOString(),
+        status,
+        error,
+        durationMs: Date.now() - startedAt,
+        delivered,
+      });
+      if (delivered) {
+        taskLog.info("Push notification delivered", {
+          deliveryId: payload.deliveryId,
+          state: event.status.state,
+          attempt,
+        });
+        return true;
+      }
+      taskLog.warn("Push notification attempt failed", {
+        deliveryId: payload.deliveryId,
+        attempt,
+        maxAttempts: this.config.maxAttempts,
+        status,
+        error,
+      });
+      if (!isRetryable(status) || attempt === this.config.maxAttempts) break;
+
+      const backoffMs = this.config.retryBaseMs * 2 ** (attempt - 1);
+      await this.sleep(
+        Math.min(this.config.retryMaxMs, Math.max(backoffMs, retryAfterMs))
+      );
+    }
+    taskLog.error("Giving up on the push notification", {
+      deliveryId: payload.deliveryId,
+    });
+    return false;
+  }
+
+  /**
+   * Returns the delivery attempts of a task, oldest first.
+   */
+  deliveries(taskId: string): DeliveryAttempt[] {
+    return [...(this.log.get(taskId) ?? [])];
+  }
+
+  private record(taskId: string, attempt: DeliveryAttempt): void {
+    const attempts = this.log.get(taskId);
+    if (attempts) {
+      attempts.push(attempt);
+      return;
+    }
+    if (this.log.size >= MAX_LOGGED_TASKS) {
+      this.log.delete(this.log.keys().next().value as string);
+    }
+    this.log.set(taskId, [attempt]);
+  }
+}
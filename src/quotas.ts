@@ -0,0 +1,346 @@
+/**
+ * Rate limits and concurrency quotas for the A2A routes: requests per
+ * minute, concurrent tasks and concurrent streams, enforced per verified
+ * subscriber, per subscriber and skill, and globally. Requests without a
+ * verified subscriber share a global budget of their own. Requests over a
+ * limit are refused with a JSON-RPC error carrying a retry-after hint
+ * before any task starts.
+ */
+
+import type { RequestHandler } from "express";
+import type { RequestContext } from "@nevermined-io/payments";
+import { verifiedSubscriber } from "./subscribers";
+import { logger } from "./logger";
+
+const log = logger.child({ component: "quotas" });
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Limits of one scope. Unset limits are not enforced.
+ */
+export interface QuotaLimits {
+  requestsPerMinute?: number;
+  concurrentTasks?: number;
+  concurrentStreams?: number;
+}
+
+/**
+ * Limits per scope. `subscriber` applies to each subscriber, `skills` to
+ * each subscriber's use of a skill, and `global` to the whole server. The
+ * `global` limits also apply, separately, to all unauthenticated requests.
+ */
+export interface QuotaConfig {
+  global: QuotaLimits;
+  subscriber: QuotaLimits;
+  skills: Record<string, QuotaLimits>;
+}
+
+/**
+ * A refused request.
+ */
+export interface QuotaViolation {
+  scope: "global" | "subscriber" | "skill";
+  limit: keyof QuotaLimits;
+  max: number;
+  retryAfterSeconds: number;
+}
+
+/**
+ * Resolves the skill a JSON-RPC message would be routed to.
+ */
+export type SkillResolver = (
+  message: RequestContext["userMessage"]
+) => string | undefined;
+
+/** JSON-RPC error code of rate limit and quota errors. */
+export const QUOTA_ERROR_CODE = -32029;
+
+/** JSON-RPC error code of a request reusing the messageId of a running task. */
+const INVALID_REQUEST_ERROR_CODE = -32600;
+
+/** Counter keys of the global budgets of verified and unauthenticated requests. */
+const GLOBAL_KEY = "global";
+const UNAUTHENTICATED_KEY = "global:unauthenticated";
+
+/** Retry hint for concurrency limits, which free up when a task ends. */
+const CONCURRENCY_RETRY_SECONDS = 5;
+
+const WINDOW_MS = 60 * 1000;
+
+/** JSON-RPC methods that start a task. */
+const TASK_METHODS = ["message/send", "message/stream"];
+
+/** JSON-RPC methods that hold an SSE connection. */
+const STREAM_METHODS = ["message/stream", "tasks/resubscribe"];
+
+/**
+ * A task slot, from the accepted request until the task's final event.
+ */
+interface TaskLease {
+  keys: string[];
+  /** Set once the Executor started the task; it then releases the lease. */
+  claimed: boolean;
+}
+
+/**
+ * Thrown by admit() when a messageId still holds the slot of its task.
+ */
+export class MessageInUseError extends Error {
+  constructor(public readonly messageId: string) {
+    super(`messageId ${messageId} is already in use`);
+    this.name = "MessageInUseError";
+  }
+}
+
+// ============================================================================
+// QUOTA MANAGER
+// ============================================================================
+
+export class QuotaManager {
+  /** Request timestamps in the last minute, per counter key. */
+  private readonly requests = new Map<string, number[]>();
+  /** Active tasks and streams, per counter key. */
+  private readonly tasks = new Map<string, number>();
+  private readonly streams = new Map<string, number>();
+  /** Task leases, keyed by the messageId that started the task. */
+  private readonly leases = new Map<string, TaskLease>();
+
+  constructor(private readonly config: QuotaConfig) {}
+
+  /**
+   * Returns the counter keys and limits that apply to a request.
+   * Unauthenticated requests only count against their own global budget.
+   */
+  private scopes(
+    subscriberId: string | undefined,
+    skillId: string | undefined
+  ): Array<{ scope: QuotaViolation["scope"]; key: string; limits: QuotaLimits }> {
+    if (subscriberId === undefined) {
+      return [
+        { scope: "global", key: UNAUTHENTICATED_KEY, limits: this.config.global },
+      ];
+    }
+    const scopes: Array<{
+      scope: QuotaViolation["scope"];
+      key: string;
+      limits: QuotaLimits;
+    }> = [
+      { scope: "global", key: GLOBAL_KEY, limits: this.config.global },
+      {
+        scope: "subscriber",
+        key: `subscriber:${subscriberId}`,
+        limits: this.config.subscriber,
+      },
+    ];
+    if (skillId && this.config.skills[skillId]) {
+      scopes.push({
+        scope: "skill",
+        key: `skill:${subscriberId}:${skillId}`,
+        limits: this.config.skills[skillId],
+      });
+    }
+    return scopes;
+  }
+
+  /**
+   * Checks a request against every applicable limit and, when it is
+   * allowed, counts it and reserves its task and stream slots.
+   * @param request.subscriberId - The verified caller, undefined if unauthenticated.
+   * @param request.skillId - The skill the request would run, if it starts a task.
+   * @param request.startsTask - Whether the request starts a task.
+   * @param request.stream - Whether the request holds an SSE connection.
+   * @param request.messageId - ID of the message starting the task.
+   * @returns The violated limit, or undefined if the request is allowed.
+   * @throws MessageInUseError if the messageId still holds a task slot.
+   */
+  admit(request: {
+    subscriberId?: string;
+    skillId?: string;
+    startsTask: boolean;
+    stream: boolean;
+    messageId?: string;
+  }): QuotaViolation | undefined {
+    if (
+      request.startsTask &&
+      request.messageId &&
+      this.leases.has(request.messageId)
+    ) {
+      throw new MessageInUseError(request.messageId);
+    }
+    const now = Date.now();
+    const scopes = this.scopes(request.subscriberId, request.skillId);
+
+    for (const { scope, key, limits } of scopes) {
+      const max = limits.requestsPerMinute;
+      if (max !== undefined) {
+        const recent = this.recentRequests(key, now);
+        if (recent.length >= max) {
+          const retryAfterMs = recent[recent.length - max] + WINDOW_MS - now;
+          return {
+            scope,
+            limit: "requestsPerMinute",
+            max,
+            retryAfterSeconds: Math.max(1, Math.ceil(retryAfterMs / 1000)),
+          };
+        }
+      }
+      const concurrency: Array<[keyof QuotaLimits, Map<string, number>, boolean]> = [
+        ["concurrentTasks", this.tasks, request.startsTask],
+        ["concurrentStreams", this.streams, request.stream],
+      ];
+      for (const [limit, counters, applies] of concurrency) {
+        const max = limits[limit];
+        if (applies && max !== undefined && (counters.get(key) ?? 0) >= max) {
+          return {
+            scope,
+            limit,
+            max,
+            retryAfterSeconds: CONCURRENCY_RETRY_SECONDS,
+          };
+        }
+      }
+    }
+
+    const keys = scopes.map(({ key }) => key);
+    for (const key of keys) this.recentRequests(key, now).push(now);
+    if (request.startsTask && request.messageId) {
+      keys.forEach((key) => increment(this.tasks, key, 1));
+      this.leases.set(request.messageId, { keys, claimed: false });
+    }
+    if (request.stream) keys.forEach((key) => increment(this.streams, key, 1));
+    return undefined;
+  }
+
+  /**
+   * Marks the task started by a message as running; its slot is then
+   * released by releaseTask() when the task's final event is published.
+   */
+  claimTask(messageId: string): void {
+    const lease = this.leases.get(messageId);
+    if (lease) lease.claimed = true;
+  }
+
+  /**
+   * Releases the task slot reserved for a message. Idempotent.
+   */
+  releaseTask(messageId: string): void {
+    const lease = this.leases.get(messageId);
+    if (!lease) return;
+    this.leases.delete(messageId);
+    lease.keys.forEach((key) => increment(this.tasks, key, -1));
+  }
+
+  /**
+   * Returns the number of SSE connections currently open on the server.
+   */
+  activeStreams(): number {
+    return (
+      (this.streams.get(GLOBAL_KEY) ?? 0) +
+      (this.streams.get(UNAUTHENTICATED_KEY) ?? 0)
+    );
+  }
+
+  /**
+   * Builds the middleware enforcing the limits on the A2A JSON-RPC route.
+   * Mount it after the SubscriberDirectory middleware, which verifies the
+   * caller.
+   * @param resolveSkill - Resolves the skill a message would run.
+   */
+  middleware(resolveSkill: SkillResolver): RequestHandler {
+    return (req, res, next) => {
+      const method = req.body?.method;
+      const startsTask = TASK_METHODS.includes(method);
+      const stream = STREAM_METHODS.includes(method);
+      if (!startsTask && !stream) return next();
+
+      const message = req.body?.params?.message;
+      const messageId =
+        typeof message?.messageId === "string" ? message.messageId : undefined;
+      const subscriberId = verifiedSubscriber(res)?.id;
+      let skillId: string | undefined;
+      if (startsTask) {
+        try {
+          skillId = resolveSkill(message);
+        } catch {
+          // Malformed messages are rejected by the A2A server itself
+        }
+      }
+
+      let violation: QuotaViolation | undefined;
+      try {
+        violation = this.admit({
+          subscriberId,
+          skillId,
+          startsTask,
+          stream,
+          messageId,
+        });
+      } catch (error) {
+        if (!(error instanceof MessageInUseError)) return next(error);
+        res.status(409).json({
+          jsonrpc: "2.0",
+          id: req.body?.id ?? null,
+          error: { code: INVALID_REQUEST_ERROR_CODE, message: error.message },
+        });
+        return;
+      }
+      if (violation) {
+        log.info("Request refused by quota", {
+          method,
+          subscriber: subscriberId ?? "unauthenticated",
+          skill: skillId,
+          scope: violation.scope,
+          limit: violation.limit,
+          max: violation.max,
+        });
+        res.setHeader("Retry-After", String(violation.retryAfterSeconds));
+        res.status(429).json({
+          jsonrpc: "2.0",
+          id: req.body?.id ?? null,
+          error: {
+            code: QUOTA_ERROR_CODE,
+            message: `Rate limit exceeded: ${violation.scope} ${violation.limit} is ${violation.max}. Retry after ${violation.retryAfterSeconds}s.`,
+            data: { ...violation, skillId },
+          },
+        });
+        return;
+      }
+
+      // Free the slots when the connection ends, unless the task is running
+      res.on("close", () => {
+        if (stream) {
+          this.scopes(subscriberId, skillId).forEach(({ key }) =>
+            increment(this.streams, key, -1)
+          );
+        }
+        if (messageId && !this.leases.get(messageId)?.claimed) {
+          this.releaseTask(messageId);
+        }
+      });
+      next();
+    };
+  }
+
+  /**
+   * Returns the request timestamps of a key within the last minute.
+   */
+  private recentRequests(key: string, now: number): number[] {
+    const recent = (this.requests.get(key) ?? []).filter(
+      (timestamp) => timestamp > now - WINDOW_MS
+    );
+    this.requests.set(key, recent);
+    return recent;
+  }
+}
+
+/**
+ * Adds a delta to a counter, deleting it when it reaches zero.
+ */
+function increment(counters: Map<string, number>, key: string, delta: number) {
+  const value = (counters.get(key) ?? 0) + delta;
+  if (value > 0) counters.set(key, value);
+  else counters.delete(key);
+}
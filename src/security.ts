@@ -0,0 +1,15 @@
+/**
+ * Helpers for handling secrets shared by the admin routes and the webhook
+ * verifier.
+ */
+
+import crypto from "crypto";
+
+/**
+ * Compares two secrets in constant time.
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
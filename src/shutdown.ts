@@ -0,0 +1,250 @@
+/**
+ * Graceful shutdown on SIGINT and SIGTERM. While the agent drains, new
+ * tasks are refused and /readyz fails; running tasks get a grace period,
+ * then they are cancelled, and those that still do not stop get a final
+ * `failed` status-update. Queued push notifications and pending ledger and
+ * task store writes are flushed before the process exits.
+ */
+
+import type { Server } from "http";
+import type { RequestHandler } from "express";
+import { v4 as uuidv4 } from "uuid";
+import type { CancellationRegistry, CancellationToken } from "./cancellation";
+import type { ShutdownConfig } from "./config";
+import type { ReadinessProbe } from "./health";
+import type { UsageLedger } from "./ledger";
+import type { PushNotifier } from "./push";
+import type { FileTaskStore } from "./taskStore";
+import { logger } from "./logger";
+
+const log = logger.child({ component: "shutdown" });
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** JSON-RPC error code of requests refused while the agent shuts down. */
+export const SHUTTING_DOWN_ERROR_CODE = -32030;
+
+/** JSON-RPC methods that start a task. */
+const TASK_METHODS = ["message/send", "message/stream"];
+
+/** Retry hint of refused requests: long enough for a restart. */
+const RETRY_AFTER_SECONDS = 30;
+
+/** How long cancelled tasks may take to publish their `canceled` event. */
+const CANCEL_WAIT_MS = 2000;
+
+/**
+ * Outcome of draining the running tasks.
+ */
+export interface DrainResult {
+  /** Tasks that finished on their own within the grace period. */
+  finished: number;
+  /** Tasks cancelled after the grace period. */
+  canceled: string[];
+  /** Tasks that did not stop when cancelled and were failed. */
+  failed: string[];
+}
+
+/**
+ * Publishes a final `failed` status-update for a task that did not stop,
+ * finishes its event bus and releases it. Nothing is charged. The Executor
+ * drops any final event the handler still publishes afterwards.
+ * @param token - The cancellation token of the task.
+ * @param planId - The plan ID credits are charged against.
+ */
+function publishShutdownFailure(token: CancellationToken, planId: string): void {
+  const { taskId, contextId, eventBus } = token;
+  eventBus.publish({
+    kind: "status-update",
+    taskId,
+    contextId,
+    status: {
+      state: "failed",
+      message: {
+        kind: "message",
+        role: "agent",
+        messageId: uuidv4(),
+        parts: [
+          {
+            kind: "text",
+            text: "The agent shut down before the task finished. Please send it again.",
+          },
+        ],
+        taskId,
+        contextId,
+      },
+      timestamp: new Date().toISOString(),
+    },
+    final: true,
+    metadata: { creditsUsed: 0, planId, errorType: "shutdown" },
+  });
+  eventBus.finished();
+  token.release();
+}
+
+// ============================================================================
+// GRACEFUL SHUTDOWN
+// ============================================================================
+
+export class GracefulShutdown {
+  private draining = false;
+  private done?: Promise<void>;
+
+  /**
+   * @param options.config - Grace period and push flush timeout.
+   * @param options.tasks - The running tasks of the Executor.
+   * @param options.pushNotifier - Flushed before the process exits.
+   * @param options.planId - Returns the plan ID failed tasks are reported against.
+   * @param options.ledger - Flushed before the process exits.
+   * @param options.taskStore - Flushed before the process exits.
+   */
+  constructor(
+    private readonly options: {
+      config: ShutdownConfig;
+      tasks: CancellationRegistry;
+      pushNotifier: PushNotifier;
+      planId: () => string;
+      ledger?: UsageLedger;
+      taskStore?: FileTaskStore;
+    }
+  ) {}
+
+  /** Whether the agent is shutting down. */
+  get isDraining(): boolean {
+    return this.draining;
+  }
+
+  /**
+   * Builds the middleware refusing new tasks (message/send and
+   * message/stream) with HTTP 503 while the agent shuts down. Requests on
+   * existing tasks (tasks/get, tasks/cancel, tasks/resubscribe) still run.
+   * Mount it after the body parser.
+   */
+  middleware(): RequestHandler {
+    return (req, res, next) => {
+      if (!this.draining || !TASK_METHODS.includes(req.body?.method)) {
+        return next();
+      }
+      res.setHeader("Retry-After", String(RETRY_AFTER_SECONDS));
+      res.status(503).json({
+        jsonrpc: "2.0",
+        id: req.body?.id ?? null,
+        error: {
+          code: SHUTTING_DOWN_ERROR_CODE,
+          message: "The agent is shutting down and does not accept new tasks.",
+          data: { retryAfterSeconds: RETRY_AFTER_SECONDS },
+        },
+      });
+    };
+  }
+
+  /**
+   * Readiness probe failing while the agent shuts down, so load balancers
+   * stop routing to it.
+   */
+  probe(): ReadinessProbe {
+    return {
+      name: "shutdown",
+      check: () => {
+        if (this.draining) throw new Error("shutting down");
+      },
+    };
+  }
+
+  /**
+   * Shuts down on SIGINT and SIGTERM. A second signal exits immediately.
+   * @param server - The HTTP server, closed once the tasks are drained.
+   */
+  handleSignals(server?: Server): void {
+    for (const signal of ["SIGINT", "SIGTERM"] as const) {
+      process.on(signal, () => {
+        if (this.done) {
+          log.warn("Second signal received, exiting without draining", {
+            signal,
+          });
+          process.exit(1);
+        }
+        this.shutdown(signal, server).then(
+          () => process.exit(0),
+          (error) => {
+            log.error("Graceful shutdown failed", { error });
+            process.exit(1);
+          }
+        );
+      });
+    }
+  }
+
+  /**
+   * Stops accepting tasks, drains the running ones, closes the server and
+   * flushes pending writes and push notifications. Later calls return the
+   * first shutdown.
+   * @param reason - Why the agent shuts down (e.g. the signal).
+   * @param server - The HTTP server to close.
+   */
+  shutdown(reason: string, server?: Server): Promise<void> {
+    this.done ??= this.run(reason, server);
+    return this.done;
+  }
+
+  /**
+   * Gives the running tasks the grace period, cancels the ones still
+   * running, and fails those that do not stop.
+   */
+  async drain(): Promise<DrainResult> {
+    const { config, tasks, planId } = this.options;
+    const running = tasks.running().length;
+    if (await tasks.whenIdle(config.gracePeriodSeconds * 1000)) {
+      return { finished: running, canceled: [], failed: [] };
+    }
+
+    const canceled = tasks.running().map((token) => token.taskId);
+    log.warn("Cancelling tasks still running after the grace period", {
+      taskIds: canceled,
+    });
+    canceled.forEach((taskId) => tasks.cancel(taskId));
+    await tasks.whenIdle(CANCEL_WAIT_MS);
+
+    // Tasks that published their final event are only about to be released
+    const stuck = tasks.running().filter((token) => !token.finalized);
+    for (const token of stuck) {
+      publishShutdownFailure(token, planId());
+    }
+    const failed = stuck.map((token) => token.taskId);
+    return {
+      finished: running - canceled.length,
+      canceled: canceled.filter((taskId) => !failed.includes(taskId)),
+      failed,
+    };
+  }
+
+  private async run(reason: string, server?: Server): Promise<void> {
+    const { config, tasks, pushNotifier, ledger, taskStore } = this.options;
+    this.draining = true;
+    log.info("Shutting down A2A Payments Agent", {
+      reason,
+      runningTasks: tasks.running().length,
+      gracePeriodSeconds: config.gracePeriodSeconds,
+    });
+
+    const result = await this.drain();
+    log.info("Tasks drained", { ...result });
+
+    // Final events have been sent; stop taking connections
+    server?.close();
+    server?.closeIdleConnections?.();
+
+    const undelivered = await pushNotifier.flush(
+      config.pushFlushTimeoutSeconds * 1000
+    );
+    if (undelivered.length > 0) {
+      log.warn("Push notifications still pending at exit", {
+        taskIds: undelivered,
+      });
+    }
+    await Promise.allSettled([ledger?.flush(), taskStore?.flush()]);
+    log.info("Server stopped");
+  }
+}
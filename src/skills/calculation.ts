@@ -0,0 +1,198 @@
+/**
+ * Calculation skill: evaluates arithmetic expressions with the safe
+ * expression engine.
+ */
+
+import type { Skill } from "./types";
+import { evaluateExpression, CalculationError } from "../calculator";
+import { hasAnyPhrase, hasPhrase } from "./text";
+import { stripFollowUpMarkers } from "../conversations";
+
+const MATH_KEYWORDS = ["calculate", "math", "compute", "solve"];
+
+const MATH_FUNCTIONS = ["sqrt", "sin", "cos", "tan", "log", "ln", "abs", "round", "pi"];
+
+/**
+ * Extracts the expression and optional precision from a text request.
+ * A trailing "to N decimal places" sets the result precision.
+ */
+function parseCalculationText(userText: string): {
+  expression: string;
+  precision?: number;
+} {
+  const precisionMatch = userText.match(
+    /\s*(?:rounded\s+)?(?:to|with)\s+(\d+)\s+decimals?(?:\s+places?)?/i
+  );
+  const precision = precisionMatch ? parseInt(precisionMatch[1], 10) : undefined;
+  const expression = userText
+    .replace(precisionMatch ? precisionMatch[0] : "", "")
+    .replace(/^.*?\b(calculate|math|compute|solve|what is)\b\s*:?\s*/i, "")
+    .replace(/[?=.!\s]+$/, "")
+    .trim();
+  return { expression, precision };
+}
+
+export const calculationSkill: Skill = {
+  id: "calculation",
+  label: "Calculation",
+  card: {
+    name: "Mathematical Calculations",
+    description: "Performs mathematical calculations and operations.",
+    tags: ["math", "calculation"],
+    examples: ["Calculate 2+2", "What is 15 * 7?", "Math: 100/4"],
+    inputModes: ["text/plain", "application/json"],
+    outputModes: ["text/plain", "application/json"],
+  },
+  inputSchema: {
+    type: "object",
+    properties: {
+      expression: {
+        type: "string",
+        description: "Arithmetic expression, e.g. \"sqrt(16) + 2^3\"",
+        minLength: 1,
+        maxLength: 1000,
+      },
+      precision: {
+        type: "integer",
+        description: "Maximum number of decimal places in the result",
+        minimum: 0,
+        maximum: 15,
+      },
+    },
+    required: ["expression"],
+    additionalProperties: false,
+  },
+  credits: 2,
+
+  /**
+   * Scores calculation requests. "What is" alone is weak evidence
+   * ("What is the weather in Paris"); numbers with operators are strong.
+   */
+  score(text) {
+    let score = 0;
+    if (hasAnyPhrase(text, MATH_KEYWORDS)) {
+      score += 0.6;
+    } else if (hasPhrase(text, "what is")) {
+      score += 0.2;
+    }
+    const hasNumbers = /\d/.test(text);
+    const hasOperators = /[+\-*/^%()=]/.test(text);
+    if (hasNumbers && hasOperators) {
+      score += 0.4;
+    } else if (hasAnyPhrase(text, MATH_FUNCTIONS)) {
+      score += 0.3;
+    }
+    return Math.min(1, score);
+  },
+
+  /**
+   * Resolves follow-ups that continue the previous expression
+   * ("and times 3", "* 2") or supply a pending expression.
+   */
+  followUp(text, previous) {
+    const value = stripFollowUpMarkers(text)
+      .replace(/\bplus\b/gi, "+")
+      .replace(/\bminus\b/gi, "-")
+      .replace(/\b(times|multiplied by)\b/gi, "*")
+      .replace(/\bdivided by\b/gi, "/")
+      .trim();
+    if (!value) return undefined;
+    if (!previous.expression) {
+      return { expression: value, precision: previous.precision };
+    }
+    if (!/^[+\-*/^%]/.test(value)) return undefined;
+    return {
+      expression: `(${previous.expression}) ${value}`,
+      precision: previous.precision,
+    };
+  },
+
+  /**
+   * Estimates the size of the expression to evaluate.
+   */
+  estimateUsage(input) {
+    const { expression } = input.data
+      ? { expression: String(input.data.expression ?? "") }
+      : parseCalculationText(input.text);
+    return { inputChars: expression.length };
+  },
+
+  /**
+   * Handles calculation requests using the safe expression engine.
+   */
+  handle({ userText, input, planId }) {
+    const { expression, precision } = input.data
+      ? {
+          expression: String(input.data.expression),
+          precision: input.data.precision as number | undefined,
+        }
+      : parseCalculationText(userText);
+
+    if (!expression) {
+      return {
+        parts: [
+          {
+            kind: "text",
+            text: "📊 What would you like me to calculate?",
+          },
+        ],
+        metadata: {
+          planId,
+          operationType: "calculation_input_required",
+          missing: ["expression"],
+        },
+        state: "input-required",
+        args: { precision },
+        missing: ["expression"],
+      };
+    }
+
+    try {
+      const { value: result, variables } = evaluateExpression(expression, {
+        precision,
+      });
+      const text = `📊 Calculation Result:\n${expression} = ${result}`;
+
+      return {
+        parts: [{ kind: "text", text }],
+        artifact: {
+          name: "calculation-result",
+          text,
+          data: { expression, result, precision, variables },
+        },
+        usage: { inputChars: expression.length },
+        metadata: {
+          planId,
+          costDescription: "Mathematical calculation",
+          operationType: "calculation",
+          expression,
+          result,
+          precision,
+        },
+        state: "completed",
+        args: { expression, precision },
+      };
+    } catch (error) {
+      const calcError =
+        error instanceof CalculationError
+          ? error
+          : new CalculationError("Invalid mathematical expression", 0);
+      return {
+        parts: [
+          {
+            kind: "text",
+            text: `Error: ${calcError.message}`,
+          },
+        ],
+        metadata: {
+          planId,
+          expression,
+          operationType: "calculation_error",
+          errorPosition: calcError.position,
+          errorToken: calcError.token,
+        },
+        state: "failed",
+      };
+    }
+  },
+};
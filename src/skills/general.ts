@@ -0,0 +1,63 @@
+/**
+ * General skill: fallback for requests no other skill matches.
+ */
+
+import type { Skill } from "./types";
+
+export const generalSkill: Skill = {
+  id: "general",
+  label: "General",
+  card: {
+    name: "General Requests",
+    description: "Handles requests that do not match any other skill.",
+    tags: ["general"],
+    examples: [],
+    inputModes: ["text/plain"],
+    outputModes: ["text/plain", "application/json"],
+  },
+  credits: 1,
+
+  /**
+   * The fallback skill is only used when no other skill scores high enough.
+   */
+  score() {
+    return 0;
+  },
+
+  /**
+   * Handles general requests.
+   */
+  handle({ userText, planId, registry, pricing }) {
+    const skills = registry.list();
+    const costs = skills
+      .map((skill) => `• ${skill.label}: ${pricing.label(skill.id)}`)
+      .join("\n");
+
+    const text =
+      `🤖 I received your request: "${userText}"\n\n` +
+      `I'm an AI assistant with payment integration. Each operation costs different credits:\n` +
+      `${costs}\n\n` +
+      `Try asking me to calculate something, get weather info, or translate text!`;
+
+    return {
+      parts: [{ kind: "text", text }],
+      artifact: {
+        name: "general-result",
+        text,
+        data: {
+          request: userText,
+          skills: skills.map((skill) => ({
+            skillId: skill.id,
+            price: pricing.label(skill.id),
+          })),
+        },
+      },
+      metadata: {
+        planId,
+        costDescription: "General request processing",
+        operationType: "general",
+      },
+      state: "completed",
+    };
+  },
+};
@@ -0,0 +1,96 @@
+/**
+ * Greeting skill: responds to greetings and lists the agent capabilities.
+ */
+
+import type { Skill } from "./types";
+import { hasAnyPhrase, removePhrases } from "./text";
+
+const GREETINGS = [
+  "hello",
+  "hi",
+  "hey",
+  "good morning",
+  "good afternoon",
+  "good evening",
+];
+
+const CAPABILITY_QUESTIONS = ["what can you do", "help"];
+
+/** Filler words that may accompany a greeting without changing its intent. */
+const GREETING_FILLERS = ["there", "everyone", "all", "agent", "assistant"];
+
+export const greetingSkill: Skill = {
+  id: "greeting",
+  label: "Greeting",
+  card: {
+    name: "Greeting",
+    description:
+      "Responds to greetings and provides information about capabilities.",
+    tags: ["greeting", "info"],
+    examples: ["Hello", "Hi", "What can you do?"],
+    inputModes: ["text/plain", "application/json"],
+    outputModes: ["text/plain", "application/json"],
+  },
+  inputSchema: {
+    type: "object",
+    properties: {
+      name: { type: "string", description: "Name to greet", maxLength: 100 },
+    },
+    additionalProperties: false,
+  },
+  credits: 1,
+
+  /**
+   * Scores greetings. A message that is only a greeting scores high; a
+   * greeting followed by another request ("Hi, what is 2+2?") scores low so
+   * the other request wins.
+   */
+  score(text) {
+    if (hasAnyPhrase(text, CAPABILITY_QUESTIONS)) return 0.8;
+    if (!hasAnyPhrase(text, GREETINGS)) return 0;
+    const rest = removePhrases(text, [...GREETINGS, ...GREETING_FILLERS]);
+    return /[a-z0-9]/i.test(rest) ? 0.35 : 0.9;
+  },
+
+  /**
+   * Handles greeting requests.
+   */
+  handle({ userText, input, planId, registry, pricing }) {
+    const name = input.data?.name as string | undefined;
+    const greeting = name
+      ? `Hello ${name}`
+      : hasAnyPhrase(userText, GREETINGS)
+      ? userText
+      : "Hello";
+    const skills = registry.list();
+    const capabilities = skills
+      .map((skill) => `• ${skill.card.name} (${pricing.label(skill.id)})`)
+      .join("\n");
+    const text =
+      `${greeting}! I'm your AI assistant with payment integration. I can help you with:\n` +
+      `${capabilities}\n\n` +
+      `Just ask me anything!`;
+
+    return {
+      parts: [{ kind: "text", text }],
+      artifact: {
+        name: "greeting-result",
+        text,
+        data: {
+          greeting,
+          capabilities: skills.map((skill) => ({
+            skillId: skill.id,
+            name: skill.card.name,
+            price: pricing.label(skill.id),
+          })),
+        },
+      },
+      metadata: {
+        planId,
+        costDescription: "Basic greeting response",
+        operationType: "greeting",
+      },
+      state: "completed",
+    };
+  },
+};
@@ -0,0 +1,76 @@
+/**
+ * Built-in skills and the default registry the agent dispatches through.
+ * To add a skill, write a module exporting a Skill and register it here.
+ */
+
+import { SkillRegistry } from "./registry";
+import { greetingSkill } from "./greeting";
+import { calculationSkill } from "./calculation";
+import { createWeatherSkill } from "./weather";
+import { createTranslationSkill } from "./translation";
+import { createStreamingSkill } from "./streaming";
+import type { StreamingLimits } from "./streaming";
+import { createPushNotificationSkill } from "./pushNotification";
+import { generalSkill } from "./general";
+import { SeededWeatherSimulator } from "../weather";
+import type { WeatherProvider } from "../weather";
+import { Translator } from "../translator";
+import { PushConfigRegistry } from "../push";
+
+export { SkillRegistry } from "./registry";
+export {
+  routeRequest,
+  buildClarificationResult,
+  DEFAULT_ROUTING_OPTIONS,
+} from "./router";
+export type { RoutingDecision, RoutingOptions, ScoredSkill } from "./router";
+export {
+  extractSkillInput,
+  validateSkillInput,
+  isQuoteRequest,
+  SKILL_SELECTOR_KEY,
+  QUOTE_METADATA_KEY,
+} from "./input";
+export type { Skill, SkillContext, SkillResult, AgentSkill } from "./types";
+export type { SkillInput, TextFileInput } from "./input";
+export type { StreamingLimits } from "./streaming";
+export type { JsonSchema, JsonSchemaProperty } from "./schema";
+
+/**
+ * Dependencies of the built-in skills.
+ */
+export interface DefaultRegistryOptions {
+  /** Source of weather data (default: the seeded simulator). */
+  weatherProvider?: WeatherProvider;
+  /** Translation engine (default: the built-in phrase tables). */
+  translator?: Translator;
+  /** Maxima of the streaming skill (default: DEFAULT_STREAMING_LIMITS). */
+  streamingLimits?: StreamingLimits;
+  /** Registered push notification configs (default: an empty registry). */
+  pushConfigs?: PushConfigRegistry;
+  /** How long a push notification task waits for its config (default: 60s). */
+  pushConfigTimeoutMs?: number;
+}
+
+/**
+ * Creates a registry with all the built-in skills.
+ */
+export function createDefaultRegistry(
+  options: DefaultRegistryOptions = {}
+): SkillRegistry {
+  return new SkillRegistry()
+    .register(greetingSkill)
+    .register(calculationSkill)
+    .register(
+      createWeatherSkill(options.weatherProvider ?? new SeededWeatherSimulator())
+    )
+    .register(createTranslationSkill(options.translator ?? new Translator()))
+    .register(createStreamingSkill(options.streamingLimits))
+    .register(
+      createPushNotificationSkill(
+        options.pushConfigs ?? new PushConfigRegistry(),
+        options.pushConfigTimeoutMs ?? 60000
+      )
+    )
+    .setFallback(generalSkill);
+}
@@ -0,0 +1,153 @@
+/**
+ * Extraction and validation of skill input from the A2A message parts.
+ * Text parts are concatenated, DataPart objects carry structured arguments,
+ * and text FilePart contents are decoded so skills can work on them.
+ */
+
+import type { RequestContext } from "@nevermined-io/payments";
+import type { Skill } from "./types";
+import { validateAgainstSchema } from "./schema";
+
+/** Key in a DataPart that selects a skill directly, bypassing routing. */
+export const SKILL_SELECTOR_KEY = "skill";
+
+/**
+ * Message metadata flag that asks for a cost quote instead of running the
+ * task: `metadata: { quote: true }`.
+ */
+export const QUOTE_METADATA_KEY = "quote";
+
+/** Maximum decoded size of an inline file, in bytes. */
+const MAX_FILE_BYTES = 100 * 1024;
+
+/**
+ * A decoded text file received in a FilePart.
+ */
+export interface TextFileInput {
+  name?: string;
+  mimeType: string;
+  text: string;
+}
+
+/**
+ * Input extracted from a user message.
+ */
+export interface SkillInput {
+  /** Concatenated text of all TextParts. */
+  text: string;
+  /** Skill explicitly selected by a DataPart, bypassing routing. */
+  skillId?: string;
+  /** Merged content of all DataParts (without the selector key), if any. */
+  data?: Record<string, unknown>;
+  /** Decoded text files. */
+  files: TextFileInput[];
+  /** Problems found while decoding the parts. */
+  errors: string[];
+}
+
+/**
+ * Returns true if the MIME type is a text format we can decode.
+ */
+function isTextMimeType(mimeType: string): boolean {
+  return (
+    mimeType.startsWith("text/") ||
+    mimeType === "application/json" ||
+    mimeType === "application/xml"
+  );
+}
+
+/**
+ * Extracts text, structured data and files from the message parts.
+ * @param message - The user message.
+ * @returns The extracted input, including any decoding errors.
+ */
+export function extractSkillInput(
+  message: RequestContext["userMessage"]
+): SkillInput {
+  const texts: string[] = [];
+  const files: TextFileInput[] = [];
+  const errors: string[] = [];
+  let data: Record<string, unknown> | undefined;
+
+  for (const part of message.parts || []) {
+    if (part.kind === "text") {
+      texts.push(part.text);
+    } else if (part.kind === "data") {
+      if (!part.data || typeof part.data !== "object" || Array.isArray(part.data)) {
+        errors.push("DataPart content must be a JSON object");
+        continue;
+      }
+      data = { ...(data || {}), ...part.data };
+    } else if (part.kind === "file") {
+      const file = part.file;
+      const name = file.name;
+      const mimeType = file.mimeType || "text/plain";
+      if (!("bytes" in file) || !file.bytes) {
+        errors.push(
+          `File ${name ? `"${name}" ` : ""}must be sent inline as bytes; file URIs are not supported`
+        );
+        continue;
+      }
+      if (!isTextMimeType(mimeType)) {
+        errors.push(`File ${name ? `"${name}" ` : ""}has unsupported type ${mimeType}`);
+        continue;
+      }
+      const buffer = Buffer.from(file.bytes, "base64");
+      if (buffer.length > MAX_FILE_BYTES) {
+        errors.push(
+          `File ${name ? `"${name}" ` : ""}exceeds the ${MAX_FILE_BYTES} byte limit`
+        );
+        continue;
+      }
+      files.push({ name, mimeType, text: buffer.toString("utf8") });
+    }
+  }
+
+  let skillId: string | undefined;
+  if (data && SKILL_SELECTOR_KEY in data) {
+    const { [SKILL_SELECTOR_KEY]: selector, ...rest } = data;
+    if (typeof selector === "string") {
+      skillId = selector;
+    } else {
+      errors.push(`"${SKILL_SELECTOR_KEY}" must be a string`);
+    }
+    data = Object.keys(rest).length > 0 ? rest : undefined;
+  }
+
+  return { text: texts.join("\n").trim(), skillId, data, files, errors };
+}
+
+/**
+ * Returns true if the message asks for a cost quote (dry run).
+ * @param message - The user message.
+ */
+export function isQuoteRequest(
+  message: RequestContext["userMessage"]
+): boolean {
+  return message.metadata?.[QUOTE_METADATA_KEY] === true;
+}
+
+/**
+ * Validates the extracted input against what the skill accepts.
+ * Runs before dispatch so invalid requests are never charged.
+ * @param skill - The selected skill.
+ * @param input - The extracted input.
+ * @returns The list of validation errors (empty when valid).
+ */
+export function validateSkillInput(skill: Skill, input: SkillInput): string[] {
+  const errors = [...input.errors];
+
+  if (input.data) {
+    if (!skill.inputSchema) {
+      errors.push(`Skill "${skill.id}" does not accept structured input`);
+    } else {
+      errors.push(...validateAgainstSchema(skill.inputSchema, input.data));
+    }
+  }
+
+  if (input.files.length > 0 && !skill.acceptsFiles) {
+    errors.push(`Skill "${skill.id}" does not accept file input`);
+  }
+
+  return errors;
+}
@@ -0,0 +1,245 @@
+/**
+ * Push notification skill: acknowledges the request immediately, waits in
+ * the background for the client to register a pushNotificationConfig and
+ * finishes so the result is delivered via push notification.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import type { Skill } from "./types";
+import { publishArtifact } from "../artifacts";
+import {
+  CancellationToken,
+  TaskCancelledError,
+  proratedCredits,
+  publishCancellation,
+} from "../cancellation";
+import { hasAnyPhrase } from "./text";
+import type { PricingEngine } from "../pricing";
+import type { PushConfigRegistry } from "../push";
+import type { Logger } from "../logger";
+
+/** ID of the push notification skill. */
+const SKILL_ID = "push_notification";
+
+/**
+ * Background task that waits for the client to register a
+ * pushNotificationConfig, then publishes the final state. The final event
+ * is delivered to the registered webhook by the Executor.
+ * This function is launched in the background and does not block the handler.
+ * If the task is cancelled while waiting, it publishes a final `canceled`
+ * event instead; if no config is registered in time, a final `failed` one.
+ * @param cancellation - The task cancellation token (carries task, context and event bus).
+ * @param planId - The plan ID credits are charged against.
+ * @param pricing - The pricing table the final charge is computed from.
+ * @param pushConfigs - Where registered configs are looked up.
+ * @param configTimeoutMs - How long to wait for the config.
+ * @param log - The task's logger.
+ */
+async function finalizePushNotificationTask(
+  cancellation: CancellationToken,
+  planId: string,
+  pricing: PricingEngine,
+  pushConfigs: PushConfigRegistry,
+  configTimeoutMs: number,
+  log: Logger
+) {
+  const { taskId, contextId, eventBus } = cancellation;
+
+  let pushConfig;
+  try {
+    pushConfig = await pushConfigs.waitFor(
+      taskId,
+      configTimeoutMs,
+      cancellation
+    );
+  } catch (error) {
+    if (!(error instanceof TaskCancelledError)) throw error;
+    publishCancellation(cancellation, {
+      creditsUsed: proratedCredits(
+        pricing.price(SKILL_ID),
+        cancellation.getProgress()
+      ),
+      planId,
+      costDescription: "Push notification task canceled",
+      operationType: "push_notification",
+    });
+    return;
+  }
+
+  if (!pushConfig) {
+    const text = `No pushNotificationConfig was registered within ${Math.round(
+      configTimeoutMs / 1000
+    )}s, so the result cannot be delivered.`;
+    log.warn("No push notification config registered in time", {
+      configTimeoutMs,
+    });
+    publishFinal(cancellation, "failed", text, {
+      creditsUsed: pricing.failurePrice(),
+      planId,
+      costDescription: "Push notification task failed",
+      operationType: "push_notification_timeout",
+    });
+    return;
+  }
+  cancellation.setProgress(1, 1);
+
+  publishArtifact(eventBus, taskId, contextId, {
+    name: "push-notification-result",
+    text: "Push notification task completed!",
+    data: {
+      completed: true,
+      completedAt: new Date().toISOString(),
+      webhookUrl: pushConfig.url,
+    },
+  });
+
+  publishFinal(cancellation, "completed", "Push notification task completed!", {
+    completed: true,
+    creditsUsed: pricing.price(SKILL_ID),
+    planId,
+    costDescription: "Push notification task completed",
+    operationType: "push_notification",
+  });
+}
+
+/**
+ * Publishes the final status-update of the background task, finishes the
+ * event bus and releases the task.
+ */
+function publishFinal(
+  cancellation: CancellationToken,
+  state: "completed" | "failed",
+  text: string,
+  metadata: Record<string, unknown>
+): void {
+  const { taskId, contextId, eventBus } = cancellation;
+  eventBus.publish({
+    kind: "status-update",
+    taskId,
+    contextId,
+    status: {
+      state,
+      message: {
+        kind: "message",
+        role: "agent",
+        messageId: uuidv4(),
+        parts: [{ kind: "text", text }],
+        taskId,
+        contextId,
+      },
+      timestamp: new Date().toISOString(),
+    },
+    final: true,
+    metadata,
+  });
+  eventBus.finished();
+  cancellation.release();
+}
+
+/**
+ * Ends the background task with a final `failed` event after an unexpected
+ * error. Nothing is charged.
+ */
+function failPushNotificationTask(
+  cancellation: CancellationToken,
+  planId: string,
+  error: unknown,
+  log: Logger
+): void {
+  log.error("Push notification task failed", { error });
+  try {
+    publishFinal(
+      cancellation,
+      "failed",
+      "The push notification task failed. Please send it again.",
+      {
+        creditsUsed: 0,
+        planId,
+        costDescription: "Push notification task failed",
+        operationType: "push_notification",
+        errorType: "processing_error",
+      }
+    );
+  } catch (publishError) {
+    log.error("Failed to publish the final event", { error: publishError });
+    cancellation.release();
+  }
+}
+
+/**
+ * Creates the push notification skill.
+ * @param pushConfigs - Where registered push notification configs are looked up.
+ * @param configTimeoutMs - How long a task waits for its config.
+ * @returns The push notification skill.
+ */
+export function createPushNotificationSkill(
+  pushConfigs: PushConfigRegistry,
+  configTimeoutMs: number
+): Skill {
+  return {
+    id: SKILL_ID,
+    label: "Push Notification",
+    card: {
+      name: "Push Notification Task",
+      description:
+        "Runs a background task and delivers the result via push notification. Register a pushNotificationConfig for the returned task; the result is delivered to it with retries, signed with its token.",
+      tags: ["push-notification", "async", "demo"],
+      examples: ["Testing push notification!"],
+      inputModes: ["text/plain", "application/json"],
+      outputModes: ["text/plain", "application/json"],
+    },
+    inputSchema: {
+      type: "object",
+      properties: {},
+      additionalProperties: false,
+    },
+    credits: 5,
+    async: true,
+
+    /**
+     * Scores push notification requests.
+     */
+    score(text) {
+      return hasAnyPhrase(text, ["push notification", "push notifications"])
+        ? 0.9
+        : 0;
+    },
+
+    /**
+     * Handles push notification requests.
+     * Publishes an intermediate state and launches an async background task
+     * that will publish the final state when the background work is done.
+     * @returns The initial TaskHandlerResult (intermediate state).
+     */
+    async handle({ stream, cancellation, planId, pricing, log }) {
+      // Publish intermediate state ("working")
+      stream.update(
+        "Push notification request received. Waiting for pushNotificationConfig..."
+      );
+
+      // Launch background async task for finalization. Nothing awaits it,
+      // so an error must still end the task and release it here
+      finalizePushNotificationTask(
+        cancellation,
+        planId,
+        pricing,
+        pushConfigs,
+        configTimeoutMs,
+        log
+      ).catch((error) =>
+        failPushNotificationTask(cancellation, planId, error, log)
+      );
+
+      // Return immediately with the intermediate state
+      return {
+        parts: [
+          {
+            kind: "text",
+            text: "Push notification request received. Waiting for pushNotificationConfig...",
+          },
+        ],
+        state: "working",
+      };
+    },
+  };
+}
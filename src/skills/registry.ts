@@ -0,0 +1,75 @@
+/**
+ * Registry of the skills the Executor dispatches to.
+ * The AgentCard skills list is generated from it.
+ */
+
+import type { Skill, AgentSkill } from "./types";
+
+export class SkillRegistry {
+  private readonly skills = new Map<string, Skill>();
+  private fallback?: Skill;
+
+  /**
+   * Registers a skill.
+   * @param skill - The skill to register.
+   * @returns The registry, for chaining.
+   */
+  register(skill: Skill): this {
+    if (this.skills.has(skill.id)) {
+      throw new Error(`Skill already registered: ${skill.id}`);
+    }
+    this.skills.set(skill.id, skill);
+    return this;
+  }
+
+  /**
+   * Sets the skill used when no registered skill matches.
+   * The fallback skill is not advertised in the AgentCard.
+   * @param skill - The fallback skill.
+   * @returns The registry, for chaining.
+   */
+  setFallback(skill: Skill): this {
+    this.fallback = skill;
+    return this;
+  }
+
+  /**
+   * Returns the skill with the given ID, including the fallback.
+   */
+  get(id: string): Skill | undefined {
+    if (this.fallback && this.fallback.id === id) return this.fallback;
+    return this.skills.get(id);
+  }
+
+  /**
+   * Returns the registered skills in registration order.
+   */
+  list(): Skill[] {
+    return Array.from(this.skills.values());
+  }
+
+  /**
+   * Returns the registered skills followed by the fallback, if any.
+   */
+  listAll(): Skill[] {
+    return this.fallback ? [...this.list(), this.fallback] : this.list();
+  }
+
+  /**
+   * Returns the skill used when no registered skill matches.
+   */
+  getFallback(): Skill | undefined {
+    return this.fallback;
+  }
+
+  /**
+   * Builds the AgentCard skills list from the registered skills.
+   */
+  toAgentSkills(): AgentSkill[] {
+    return this.list().map((skill) => ({
+      id: skill.id,
+      ...skill.card,
+      ...(skill.inputSchema ? { inputSchema: skill.inputSchema } : {}),
+    }));
+  }
+}
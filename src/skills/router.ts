@@ -0,0 +1,123 @@
+/**
+ * Scored intent router. Every registered skill scores the request; the best
+ * score above the threshold wins, and near-ties are sent back to the user as
+ * an input-required clarification instead of being billed to a guess.
+ */
+
+import type { TaskHandlerResult } from "@nevermined-io/payments";
+import type { SkillRegistry } from "./registry";
+import type { Skill } from "./types";
+
+/**
+ * Routing thresholds.
+ */
+export interface RoutingOptions {
+  /** Minimum score for a skill to be selected (0-1). */
+  threshold: number;
+  /** Two skills closer than this margin are considered ambiguous. */
+  ambiguityMargin: number;
+}
+
+export const DEFAULT_ROUTING_OPTIONS: RoutingOptions = {
+  threshold: 0.3,
+  ambiguityMargin: 0.1,
+};
+
+/**
+ * A skill together with its score for a given request.
+ */
+export interface ScoredSkill {
+  skill: Skill;
+  score: number;
+}
+
+/**
+ * The outcome of routing a request.
+ */
+export type RoutingDecision =
+  | { kind: "matched"; skill: Skill; score: number; scores: ScoredSkill[] }
+  | { kind: "ambiguous"; candidates: ScoredSkill[]; scores: ScoredSkill[] };
+
+/**
+ * Scores every registered skill and picks the best one.
+ * Falls back to the registry fallback skill when nothing reaches the threshold.
+ * @param registry - The skill registry.
+ * @param text - The user message text.
+ * @param options - Routing thresholds.
+ * @returns The routing decision.
+ */
+export function routeRequest(
+  registry: SkillRegistry,
+  text: string,
+  options: RoutingOptions = DEFAULT_ROUTING_OPTIONS
+): RoutingDecision {
+  const scores = registry
+    .list()
+    .map((skill) => ({ skill, score: clampScore(skill.score(text)) }))
+    .sort((a, b) => b.score - a.score);
+
+  const eligible = scores.filter((entry) => entry.score >= options.threshold);
+
+  if (eligible.length === 0) {
+    const fallback = registry.getFallback();
+    if (!fallback) {
+      throw new Error("No skill matches the request and no fallback is set");
+    }
+    return { kind: "matched", skill: fallback, score: 0, scores };
+  }
+
+  const [best, ...rest] = eligible;
+  const contenders = rest.filter(
+    (entry) => best.score - entry.score < options.ambiguityMargin
+  );
+  if (contenders.length > 0) {
+    return { kind: "ambiguous", candidates: [best, ...contenders], scores };
+  }
+
+  return { kind: "matched", skill: best.skill, score: best.score, scores };
+}
+
+/**
+ * Builds the input-required result returned for an ambiguous request.
+ * No credits are charged until the user clarifies.
+ * @param candidates - The skills that scored about the same.
+ * @param planId - The plan ID.
+ */
+export function buildClarificationResult(
+  candidates: ScoredSkill[],
+  planId: string
+): TaskHandlerResult {
+  const options = candidates
+    .map(({ skill }) => `• ${skill.card.name} (${skill.card.examples?.[0] ?? skill.id})`)
+    .join("\n");
+
+  return {
+    parts: [
+      {
+        kind: "text",
+        text:
+          `🤔 Your request could mean more than one thing. Did you mean:\n` +
+          `${options}\n\n` +
+          `Please rephrase your request so I can pick the right skill.`,
+      },
+    ],
+    metadata: {
+      creditsUsed: 0,
+      planId,
+      operationType: "routing_ambiguous",
+      candidates: candidates.map(({ skill, score }) => ({
+        skillId: skill.id,
+        score,
+      })),
+    },
+    state: "input-required",
+  };
+}
+
+/**
+ * Keeps scores within [0, 1], rounded to two decimals.
+ */
+function clampScore(score: number): number {
+  if (!Number.isFinite(score)) return 0;
+  return Math.round(Math.max(0, Math.min(1, score)) * 100) / 100;
+}
@@ -0,0 +1,109 @@
+/**
+ * Minimal JSON Schema subset used to describe and validate structured
+ * (DataPart) skill input. Supports object/string/number/integer/boolean
+ * types, required properties, enums, numeric and length bounds.
+ */
+
+/**
+ * A JSON Schema property definition.
+ */
+export interface JsonSchemaProperty {
+  type: "string" | "number" | "integer" | "boolean";
+  description?: string;
+  enum?: Array<string | number>;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  default?: unknown;
+}
+
+/**
+ * A JSON Schema for an object input, as advertised in the AgentCard.
+ */
+export interface JsonSchema {
+  type: "object";
+  properties: Record<string, JsonSchemaProperty>;
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
+/**
+ * Validates a value against a property definition.
+ * @returns An error message, or undefined when the value is valid.
+ */
+function validateProperty(
+  name: string,
+  value: unknown,
+  property: JsonSchemaProperty
+): string | undefined {
+  switch (property.type) {
+    case "string":
+      if (typeof value !== "string") return `"${name}" must be a string`;
+      if (property.minLength !== undefined && value.length < property.minLength) {
+        return `"${name}" must be at least ${property.minLength} characters`;
+      }
+      if (property.maxLength !== undefined && value.length > property.maxLength) {
+        return `"${name}" must be at most ${property.maxLength} characters`;
+      }
+      break;
+    case "number":
+    case "integer":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return `"${name}" must be a number`;
+      }
+      if (property.type === "integer" && !Number.isInteger(value)) {
+        return `"${name}" must be an integer`;
+      }
+      if (property.minimum !== undefined && value < property.minimum) {
+        return `"${name}" must be >= ${property.minimum}`;
+      }
+      if (property.maximum !== undefined && value > property.maximum) {
+        return `"${name}" must be <= ${property.maximum}`;
+      }
+      break;
+    case "boolean":
+      if (typeof value !== "boolean") return `"${name}" must be a boolean`;
+      break;
+  }
+  if (property.enum && !property.enum.includes(value as string | number)) {
+    return `"${name}" must be one of: ${property.enum.join(", ")}`;
+  }
+  return undefined;
+}
+
+/**
+ * Validates structured input against a schema.
+ * @param schema - The schema to validate against.
+ * @param data - The structured input.
+ * @returns The list of validation errors (empty when valid).
+ */
+export function validateAgainstSchema(
+  schema: JsonSchema,
+  data: Record<string, unknown>
+): string[] {
+  const errors: string[] = [];
+
+  for (const name of schema.required || []) {
+    if (data[name] === undefined || data[name] === null) {
+      errors.push(`"${name}" is required`);
+    }
+  }
+
+  for (const [name, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    const property = Object.prototype.hasOwnProperty.call(schema.properties, name)
+      ? schema.properties[name]
+      : undefined;
+    if (!property) {
+      if (schema.additionalProperties === false) {
+        errors.push(`"${name}" is not an allowed property`);
+      }
+      continue;
+    }
+    const error = validateProperty(name, value, property);
+    if (error) errors.push(error);
+  }
+
+  return errors;
+}
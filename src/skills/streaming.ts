@@ -0,0 +1,286 @@
+/**
+ * Streaming skill: streams messages over message/stream (SSE). The caller
+ * chooses how many messages are sent and how often, or a text to stream
+ * word by word, within the configured maxima.
+ */
+
+import type { Skill } from "./types";
+import type { SkillInput } from "./input";
+import { hasAnyPhrase } from "./text";
+
+/**
+ * Maxima of a stream. Structured requests over them are refused; text
+ * requests are capped.
+ */
+export interface StreamingLimits {
+  maxMessages: number;
+  minIntervalMs: number;
+  maxIntervalMs: number;
+  maxTextLength: number;
+  /** Idle time after which a heartbeat event is sent. */
+  heartbeatIntervalMs: number;
+}
+
+export const DEFAULT_STREAMING_LIMITS: StreamingLimits = {
+  maxMessages: 100,
+  minIntervalMs: 100,
+  maxIntervalMs: 60000,
+  maxTextLength: 5000,
+  heartbeatIntervalMs: 15000,
+};
+
+/** Number of messages streamed when the request does not say. */
+const DEFAULT_MESSAGES = 10;
+
+/** Delay between streamed messages when the request does not say. */
+const DEFAULT_INTERVAL_MS = 1000;
+
+/**
+ * What a request asks to stream, after applying the limits.
+ */
+interface StreamPlan {
+  /** The messages to send, in order. */
+  chunks: string[];
+  intervalMs: number;
+  /** Whether the chunks are pieces of a caller-provided text. */
+  fromText: boolean;
+  /** Values of a text request that were capped to the limits. */
+  capped: string[];
+}
+
+/**
+ * Reads an interval from text ("every 500ms", "every 2 seconds", "every second").
+ * @returns The interval in milliseconds, or undefined if none is given.
+ */
+function parseInterval(text: string): number | undefined {
+  const match = text.match(
+    /\bevery\s+(\d+(?:\.\d+)?)?\s*(ms|milliseconds?|s|secs?|seconds?)\b/i
+  );
+  if (!match) return undefined;
+  const amount = match[1] === undefined ? 1 : Number(match[1]);
+  return Math.round(/^ms|^milli/i.test(match[2]) ? amount : amount * 1000);
+}
+
+/**
+ * Splits words into `count` chunks of nearly equal size (count ≤ words).
+ */
+function groupWords(words: string[], count: number): string[] {
+  return Array.from({ length: count }, (_, i) =>
+    words
+      .slice(
+        Math.floor((i * words.length) / count),
+        Math.floor(((i + 1) * words.length) / count)
+      )
+      .join(" ")
+  );
+}
+
+/**
+ * Resolves what to stream from the structured input or the message text
+ * ("Stream 20 messages every 500ms", "Stream 'hello streaming world' word
+ * by word").
+ * @param userText - The text of the user message.
+ * @param input - The validated input.
+ * @param limits - The maxima to apply.
+ */
+function planStream(
+  userText: string,
+  input: SkillInput,
+  limits: StreamingLimits
+): StreamPlan {
+  const capped: string[] = [];
+  const cap = (name: string, value: number, min: number, max: number) => {
+    const bounded = Math.min(max, Math.max(min, value));
+    if (bounded !== value) capped.push(`${name} ${value} → ${bounded}`);
+    return bounded;
+  };
+
+  let count: number | undefined;
+  let intervalMs: number | undefined;
+  let text: string | undefined;
+  if (input.data) {
+    count = input.data.count as number | undefined;
+    intervalMs = input.data.intervalMs as number | undefined;
+    text = input.data.text as string | undefined;
+  } else {
+    const countMatch = userText.match(
+      /\b(\d+)\s+(?:messages?|updates?|events?|chunks?)\b/i
+    );
+    count = countMatch ? Number(countMatch[1]) : undefined;
+    intervalMs = parseInterval(userText);
+    const textMatch =
+      userText.match(/['"“‘]([^'"”’]+)['"”’]/) ||
+      userText.match(/\btext\s*:\s*(.+)$/is);
+    text = textMatch?.[1].trim() || undefined;
+  }
+
+  if (text && text.length > limits.maxTextLength) {
+    capped.push(`text ${text.length} → ${limits.maxTextLength} characters`);
+    text = text.slice(0, limits.maxTextLength);
+  }
+  const interval = cap(
+    "interval",
+    intervalMs ?? DEFAULT_INTERVAL_MS,
+    limits.minIntervalMs,
+    limits.maxIntervalMs
+  );
+
+  if (text) {
+    const words = text.split(/\s+/).filter(Boolean);
+    const messages = cap(
+      "messages",
+      count ?? words.length,
+      1,
+      Math.min(words.length, limits.maxMessages)
+    );
+    return {
+      chunks: groupWords(words, messages),
+      intervalMs: interval,
+      fromText: true,
+      capped,
+    };
+  }
+
+  const messages = cap("messages", count ?? DEFAULT_MESSAGES, 1, limits.maxMessages);
+  return {
+    chunks: Array.from(
+      { length: messages },
+      (_, i) => `Streaming message ${i + 1}/${messages}`
+    ),
+    intervalMs: interval,
+    fromText: false,
+    capped,
+  };
+}
+
+/**
+ * Creates the streaming skill.
+ * @param limits - Maxima of a stream.
+ * @returns The streaming skill.
+ */
+export function createStreamingSkill(
+  limits: StreamingLimits = DEFAULT_STREAMING_LIMITS
+): Skill {
+  return {
+    id: "streaming",
+    label: "Streaming",
+    card: {
+      name: "Streaming Response",
+      description: `Streams up to ${limits.maxMessages} messages, or a text word by word, over message/stream (SSE). Use the message/stream method to receive real-time updates.`,
+      tags: ["streaming", "demo"],
+      examples: [
+        "Start streaming",
+        "Stream 5 messages every 2 seconds",
+        "Stream 'hello from the agent' word by word",
+      ],
+      inputModes: ["text/plain", "application/json"],
+      outputModes: ["text/plain", "application/json"],
+    },
+    inputSchema: {
+      type: "object",
+      properties: {
+        count: {
+          type: "integer",
+          description:
+            "Number of messages; with a text, the number of chunks it is split into",
+          minimum: 1,
+          maximum: limits.maxMessages,
+        },
+        intervalMs: {
+          type: "integer",
+          description: "Delay between messages, in milliseconds",
+          minimum: limits.minIntervalMs,
+          maximum: limits.maxIntervalMs,
+          default: DEFAULT_INTERVAL_MS,
+        },
+        text: {
+          type: "string",
+          description: "Text to stream word by word",
+          minLength: 1,
+          maxLength: limits.maxTextLength,
+        },
+      },
+      additionalProperties: false,
+    },
+    // Streams cost 1 credit per 2 messages sent (5 for the default 10)
+    credits: 5,
+    formula: "ceil(chunks / 2)",
+    streaming: true,
+
+    /**
+     * Scores streaming requests. Kept below the push notification score so
+     * "Start streaming push notification" reaches the push handler.
+     */
+    score(text) {
+      return hasAnyPhrase(text, ["stream", "streaming"]) ? 0.7 : 0;
+    },
+
+    /**
+     * Streams are priced by the number of messages they send.
+     */
+    estimateUsage(input) {
+      return { chunks: planStream(input.text, input, limits).chunks.length };
+    },
+
+    /**
+     * Publishes the planned messages through the task stream, with
+     * heartbeats while waiting longer than the heartbeat interval. Progress
+     * is reported per message so a cancelled stream is billed for the
+     * messages actually sent.
+     * @returns The final TaskHandlerResult.
+     */
+    async handle({ userText, input, stream, planId }) {
+      const plan = planStream(userText, input, limits);
+      const total = plan.chunks.length;
+      const startedAt = Date.now();
+      let heartbeats = 0;
+
+      for (let i = 0; i < total; i++) {
+        if (i > 0) {
+          heartbeats += await stream.idle(
+            plan.intervalMs,
+            limits.heartbeatIntervalMs,
+            { messagesSent: i, totalMessages: total }
+          );
+        }
+        stream.progress(i + 1, total, plan.chunks[i], { sequence: i + 1 });
+      }
+
+      const durationMs = Date.now() - startedAt;
+      const summary = [
+        `🚀 Streaming finished: sent ${total} message${total === 1 ? "" : "s"} ${
+          plan.fromText ? "of your text " : ""
+        }over ${(durationMs / 1000).toFixed(1)}s (one every ${plan.intervalMs} ms${
+          heartbeats > 0 ? `, ${heartbeats} heartbeat${heartbeats === 1 ? "" : "s"}` : ""
+        }).`,
+        ...(plan.capped.length > 0
+          ? [`ℹ️ Capped to the stream limits: ${plan.capped.join(", ")}`]
+          : []),
+      ].join("\n");
+
+      return {
+        artifact: {
+          name: "streaming-result",
+          data: {
+            messagesSent: total,
+            intervalMs: plan.intervalMs,
+            heartbeatsSent: heartbeats,
+            durationMs,
+            fromText: plan.fromText,
+            capped: plan.capped,
+          },
+        },
+        parts: [{ kind: "text", text: summary }],
+        usage: { chunks: total },
+        metadata: {
+          planId,
+          costDescription: `Streaming response (${total} messages)`,
+          operationType: "streaming",
+          streamingType: plan.fromText ? "text" : "sequence",
+          messagesSent: total,
+        },
+        state: "completed",
+      };
+    },
+  };
+}
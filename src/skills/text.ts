@@ -0,0 +1,43 @@
+/**
+ * Text helpers shared by the skill scorers.
+ */
+
+/**
+ * Escapes a string for use inside a regular expression.
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Returns true if the text contains the phrase as whole words (case-insensitive).
+ * Avoids false positives such as "hi" in "this".
+ */
+export function hasPhrase(text: string, phrase: string): boolean {
+  return new RegExp(`\\b${escapeRegExp(phrase)}\\b`, "i").test(text);
+}
+
+/**
+ * Returns true if the text contains any of the phrases as whole words.
+ */
+export function hasAnyPhrase(text: string, phrases: string[]): boolean {
+  return phrases.some((phrase) => hasPhrase(text, phrase));
+}
+
+/**
+ * Counts the whitespace-separated words of a text.
+ */
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Removes every occurrence of the given phrases from the text.
+ */
+export function removePhrases(text: string, phrases: string[]): string {
+  return phrases.reduce(
+    (result, phrase) =>
+      result.replace(new RegExp(`\\b${escapeRegExp(phrase)}\\b`, "gi"), ""),
+    text
+  );
+}
@@ -0,0 +1,465 @@
+/**
+ * Translation skill: translates words and short phrases between languages
+ * with the phrase-table Translator.
+ */
+
+import type { Skill } from "./types";
+import type { SkillInput } from "./input";
+import { hasAnyPhrase, countWords } from "./text";
+import { stripFollowUpMarkers } from "../conversations";
+import {
+  TranslationError,
+  languageName,
+  normalizeLanguage,
+} from "../translator";
+import type { Translator, TranslationResult } from "../translator";
+import type { TaskStream } from "../taskStream";
+
+/** Keywords of translation requests too vague to match a phrasing. */
+const TRANSLATION_KEYWORDS = ["translate", "translation", "how do you say"];
+
+/** A language name or code. */
+const LANGUAGE = String.raw`[\p{L}-]+`;
+
+/**
+ * The phrasings of a translation request, with the score each gets. Both the
+ * scorer and the parser use this list, so any phrasing that routes to the
+ * skill also parses. Named groups: text, target and source (a missing
+ * target makes the request input-required).
+ */
+const PHRASINGS: Array<{
+  pattern: RegExp;
+  score: number;
+  /** Only match when the target is a known language ("say hi in general"). */
+  strict?: boolean;
+}> = [
+  // Translate to Spanish: hello / translate from English into French: hello
+  {
+    pattern: new RegExp(
+      String.raw`^translate\s+(?:from\s+(?<source>${LANGUAGE})\s+)?(?:to|into)\s+(?<target>${LANGUAGE})\s*[:,-]?\s+(?<text>.+)$`,
+      "isu"
+    ),
+    score: 0.9,
+  },
+  // Translate 'hello' to Spanish / translate hola from Spanish into English
+  {
+    pattern: new RegExp(
+      String.raw`^translate\s+(?<text>.+?)\s+(?:from\s+(?<source>${LANGUAGE})\s+)?(?:to|into|in)\s+(?<target>${LANGUAGE})$`,
+      "isu"
+    ),
+    score: 0.9,
+  },
+  // Translate 'hello' (target language missing)
+  {
+    pattern: new RegExp(
+      String.raw`^translate\s+(?<text>.+?)(?:\s+from\s+(?<source>${LANGUAGE}))?$`,
+      "isu"
+    ),
+    score: 0.9,
+  },
+  // How do you say 'goodbye' in French?
+  {
+    pattern: new RegExp(
+      String.raw`^how\s+(?:do|would|can)\s+(?:you|i|we)\s+say\s+(?<text>.+?)\s+in\s+(?<target>${LANGUAGE})$`,
+      "isu"
+    ),
+    score: 0.9,
+  },
+  // How do you say 'goodbye'? (target language missing)
+  {
+    pattern: /^how\s+(?:do|would|can)\s+(?:you|i|we)\s+say\s+(?<text>.+)$/isu,
+    score: 0.9,
+  },
+  // Say in French: good night
+  {
+    pattern: new RegExp(
+      String.raw`^say\s+in\s+(?<target>${LANGUAGE})\s*[:,-]?\s+(?<text>.+)$`,
+      "isu"
+    ),
+    score: 0.7,
+    strict: true,
+  },
+  // Say 'thank you' in German
+  {
+    pattern: new RegExp(
+      String.raw`^say\s+(?<text>.+?)\s+in\s+(?<target>${LANGUAGE})$`,
+      "isu"
+    ),
+    score: 0.7,
+    strict: true,
+  },
+  // Translation of 'hello' into Italian / what's the translation of hello?
+  {
+    pattern: new RegExp(
+      String.raw`^(?:what\s+is\s+|what's\s+)?(?:the\s+)?translation\s+of\s+(?<text>.+?)(?:\s+(?:to|into|in)\s+(?<target>${LANGUAGE}))?$`,
+      "isu"
+    ),
+    score: 0.7,
+  },
+  // What's the Spanish word for coffee? / German translation of water
+  {
+    pattern: new RegExp(
+      String.raw`^(?:what\s+is\s+|what's\s+)?(?:the\s+)?(?<target>${LANGUAGE})\s+(?:translation|word)\s+(?:of|for)\s+(?<text>.+)$`,
+      "isu"
+    ),
+    score: 0.7,
+    strict: true,
+  },
+];
+
+/**
+ * A translation request parsed from text. Language names are as written.
+ */
+interface ParsedTranslation {
+  text?: string;
+  targetLanguage?: string;
+  sourceLanguage?: string;
+}
+
+/**
+ * Strips politeness prefixes and trailing punctuation so the phrasings
+ * only see the request itself. Punctuation inside quotes is kept.
+ */
+function normalizeRequest(text: string): string {
+  return text
+    .trim()
+    .replace(/^(?:please\s+|(?:can|could|would)\s+you\s+(?:please\s+)?)/i, "")
+    .replace(/[\s?!.]+$/, "")
+    .replace(/\s+please$/i, "")
+    .trim();
+}
+
+/**
+ * Removes matching quotes around a text.
+ */
+function unquote(text: string): string {
+  const match = text.trim().match(/^(['"“‘«])(.*)(['"”’»])$/su);
+  return (match ? match[2] : text).trim();
+}
+
+/**
+ * Matches a text request against the phrasings. Strict phrasings naming a
+ * target that is not a language do not match, so "say hi in general" is not
+ * mistaken for a translation.
+ * @returns The parsed request and the phrasing's score, or undefined.
+ */
+function matchPhrasing(
+  text: string
+): { request: ParsedTranslation; score: number } | undefined {
+  const request = normalizeRequest(text);
+  for (const { pattern, score, strict } of PHRASINGS) {
+    const groups = request.match(pattern)?.groups;
+    if (!groups) continue;
+    if (strict && !normalizeLanguage(groups.target)) continue;
+    return {
+      request: {
+        text: unquote(groups.text) || undefined,
+        targetLanguage: groups.target,
+        sourceLanguage: groups.source,
+      },
+      score,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Resolves the text and languages from the structured input, an attached
+ * text file, or the message text. Any of them may be missing.
+ */
+function parseTranslationInput(
+  userText: string,
+  input: SkillInput
+): ParsedTranslation {
+  const fileText = input.files.map((file) => file.text).join("\n").trim();
+
+  if (input.data) {
+    return {
+      text: (input.data.text as string | undefined) || fileText || undefined,
+      targetLanguage: input.data.targetLanguage as string | undefined,
+      sourceLanguage: input.data.sourceLanguage as string | undefined,
+    };
+  }
+
+  if (fileText) {
+    const languageMatch = userText.match(
+      new RegExp(String.raw`\b(?:to|into|in)\s+(${LANGUAGE})\s*[.!?]*$`, "iu")
+    );
+    const sourceMatch = userText.match(
+      new RegExp(String.raw`\bfrom\s+(${LANGUAGE})\b`, "iu")
+    );
+    return {
+      text: fileText,
+      targetLanguage: languageMatch?.[1],
+      sourceLanguage: sourceMatch?.[1],
+    };
+  }
+
+  return matchPhrasing(userText)?.request ?? {};
+}
+
+/**
+ * Translates a text line by line, streaming each translated line as it is
+ * done. The source language is detected once for the whole text.
+ * @param translator - The translation engine.
+ * @param stream - The task stream partial output is published to.
+ * @param text - The text to translate.
+ * @param target - Target language code.
+ * @param source - Source language code; detected when omitted.
+ */
+function translateLines(
+  translator: Translator,
+  stream: TaskStream,
+  text: string,
+  target: string,
+  source?: string
+): TranslationResult {
+  const sourceLanguage = source ?? translator.detect(text).language;
+  const lines = text.split(/\r?\n/);
+  stream.update(
+    `🌍 Translating ${lines.length > 1 ? `${lines.length} lines ` : ""}from ${languageName(sourceLanguage)}${source ? "" : " (detected)"} to ${languageName(target)}...`
+  );
+
+  // Blank lines are kept as they are
+  const results = lines.map((line, index) => {
+    if (!line.trim()) return undefined;
+    const result = translator.translate(line, target, sourceLanguage);
+    if (lines.length > 1) {
+      stream.progress(index + 1, lines.length, result.translatedText, {
+        line: index + 1,
+      });
+    }
+    return result;
+  });
+  const translated = results.filter(
+    (result): result is TranslationResult => result !== undefined
+  );
+  const methods = new Set(translated.map((result) => result.method));
+
+  return {
+    translatedText: lines
+      .map((line, index) => results[index]?.translatedText ?? line)
+      .join("\n"),
+    sourceLanguage,
+    detected: !source,
+    targetLanguage: target,
+    method: methods.size === 1 ? [...methods][0] : "word-by-word",
+    untranslated: [...new Set(translated.flatMap((result) => result.untranslated))],
+  };
+}
+
+/**
+ * Lists the languages a translator supports ("English, Spanish, ...").
+ */
+function supportedLanguages(translator: Translator): string {
+  return translator.languages().map(languageName).join(", ");
+}
+
+/**
+ * Creates the translation skill.
+ * @param translator - The translation engine.
+ * @returns The translation skill.
+ */
+export function createTranslationSkill(translator: Translator): Skill {
+  return {
+    id: "translation",
+    label: "Translation",
+    card: {
+      name: "Language Translation",
+      description: `Translates words and short phrases between ${supportedLanguages(translator)}, detecting the source language when it is not given.`,
+      tags: ["translation", "language"],
+      examples: [
+        "Translate 'hello' to Spanish",
+        "How do you say 'goodbye' in French?",
+        "Say in German: thank you very much",
+      ],
+      inputModes: ["text/plain", "application/json"],
+      outputModes: ["text/plain", "application/json"],
+    },
+    inputSchema: {
+      type: "object",
+      properties: {
+        text: {
+          type: "string",
+          description: "Text to translate (omit when sending a text file)",
+          minLength: 1,
+          maxLength: 5000,
+        },
+        targetLanguage: {
+          type: "string",
+          description:
+            "Language to translate into: an ISO 639 code or a name, e.g. \"es\" or \"Spanish\"",
+          minLength: 2,
+          maxLength: 50,
+        },
+        sourceLanguage: {
+          type: "string",
+          description: "Language of the text; detected when omitted",
+          minLength: 2,
+          maxLength: 50,
+        },
+      },
+      required: ["targetLanguage"],
+      additionalProperties: false,
+    },
+    acceptsFiles: true,
+    credits: 4, // Translations cost more
+
+    /**
+     * Scores translation requests: known phrasings score by how specific
+     * they are, bare keywords low enough to still route here and ask for
+     * the missing parts.
+     */
+    score(text) {
+      const phrasing = matchPhrasing(text);
+      if (phrasing) return phrasing.score;
+      if (hasAnyPhrase(text, TRANSLATION_KEYWORDS)) return 0.6;
+      return 0;
+    },
+
+    /**
+     * Resolves follow-ups such as "now French" (same text, new language) or
+     * the text or language answering a pending request.
+     */
+    followUp(text, previous) {
+      const value = stripFollowUpMarkers(text, ["in", "into", "to"]);
+      if (!value) return undefined;
+      if (previous.text) {
+        if (!normalizeLanguage(value)) return undefined;
+        return {
+          text: previous.text,
+          targetLanguage: value,
+          sourceLanguage: previous.sourceLanguage,
+        };
+      }
+      if (previous.targetLanguage) {
+        return {
+          text: unquote(value),
+          targetLanguage: previous.targetLanguage,
+          sourceLanguage: previous.sourceLanguage,
+        };
+      }
+      return undefined;
+    },
+
+    /**
+     * Estimates the words to translate, which formula prices depend on.
+     */
+    estimateUsage(input) {
+      const { text = "" } = parseTranslationInput(input.text, input);
+      return { inputChars: text.length, words: countWords(text) };
+    },
+
+    /**
+     * Handles translation requests.
+     */
+    handle({ userText, input, stream, planId }) {
+      const { text, targetLanguage, sourceLanguage } = parseTranslationInput(
+        userText,
+        input
+      );
+      const targetCode = targetLanguage && normalizeLanguage(targetLanguage);
+      const targetSupported = !!targetCode && translator.supports(targetCode);
+
+      if (!text || !targetSupported) {
+        const missing = [
+          ...(text ? [] : ["text"]),
+          ...(targetSupported ? [] : ["targetLanguage"]),
+        ];
+        let prompt = "🌍 What should I translate? Please use format: 'translate \"text\" to language', or attach a text file and name the target language";
+        if (text && targetLanguage) {
+          prompt = `🌍 I can't translate into ${targetCode ? languageName(targetCode) : `"${targetLanguage}"`} yet. Which of these languages should I use? ${supportedLanguages(translator)}`;
+        } else if (text) {
+          prompt = `🌍 Which language should I translate "${text}" into? (${supportedLanguages(translator)})`;
+        }
+        return {
+          parts: [{ kind: "text", text: prompt }],
+          metadata: {
+            planId,
+            operationType: "translation_input_required",
+            missing,
+            supportedLanguages: translator.languages(),
+          },
+          state: "input-required",
+          args: {
+            text,
+            targetLanguage: targetSupported ? targetLanguage : undefined,
+            sourceLanguage,
+          },
+          missing,
+        };
+      }
+
+      // An unusable source language is ignored and the language detected
+      const sourceCode = sourceLanguage && normalizeLanguage(sourceLanguage);
+      const ignoredSource =
+        sourceLanguage && !(sourceCode && translator.supports(sourceCode))
+          ? sourceLanguage
+          : undefined;
+
+      let translation;
+      try {
+        translation = translateLines(
+          translator,
+          stream,
+          text,
+          targetCode!,
+          ignoredSource ? undefined : sourceCode || undefined
+        );
+      } catch (error) {
+        if (!(error instanceof TranslationError)) throw error;
+        return {
+          parts: [{ kind: "text", text: `Error: ${error.message}` }],
+          metadata: { planId, operationType: "translation_error" },
+          state: "failed",
+        };
+      }
+
+      const from = languageName(translation.sourceLanguage);
+      const to = languageName(translation.targetLanguage);
+      const notes = [
+        ...(ignoredSource
+          ? [`ℹ️ "${ignoredSource}" is not a supported source language; detected ${from} instead.`]
+          : []),
+        ...(translation.untranslated.length > 0
+          ? [`⚠️ No translation found for: ${translation.untranslated.join(", ")}`]
+          : []),
+      ];
+      const resultText = [
+        `🌍 Translation (${from}${translation.detected ? ", detected" : ""} → ${to}):`,
+        `"${text}" → "${translation.translatedText}"`,
+        ...notes,
+      ].join("\n");
+
+      const data = {
+        originalText: text,
+        translatedText: translation.translatedText,
+        sourceLanguage: translation.sourceLanguage,
+        sourceLanguageName: from,
+        sourceDetected: translation.detected,
+        targetLanguage: translation.targetLanguage,
+        targetLanguageName: to,
+        method: translation.method,
+        untranslated: translation.untranslated,
+      };
+
+      return {
+        parts: [{ kind: "text", text: resultText }],
+        artifact: {
+          name: "translation-result",
+          text: translation.translatedText,
+          data,
+        },
+        args: { text, targetLanguage, sourceLanguage },
+        usage: { inputChars: text.length, words: countWords(text) },
+        metadata: {
+          planId,
+          costDescription: "Language translation",
+          operationType: "translation",
+          ...data,
+        },
+        state: "completed",
+      };
+    },
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * Types shared by every skill module and the skill registry.
+ */
+
+import type {
+  AgentCard,
+  TaskHandlerResult,
+  ExecutionEventBus,
+  RequestContext,
+} from "@nevermined-io/payments";
+import type { SkillRegistry } from "./registry";
+import type { SkillInput } from "./input";
+import type { JsonSchema } from "./schema";
+import type { ArtifactContent } from "../artifacts";
+import type { CancellationToken } from "../cancellation";
+import type { TaskStream } from "../taskStream";
+import type { PricingEngine, UsageMetrics } from "../pricing";
+import type { Logger } from "../logger";
+
+/**
+ * A single skill entry as advertised in the AgentCard, extended with the
+ * JSON schema accepted in DataParts.
+ */
+export type AgentSkill = AgentCard["skills"][number] & {
+  inputSchema?: JsonSchema;
+};
+
+/**
+ * Everything a skill handler needs to process a request.
+ */
+export interface SkillContext {
+  /** The text of the user message. */
+  userText: string;
+  /** The validated input extracted from all message parts. */
+  input: SkillInput;
+  /** The A2A request context (task, context and message IDs). */
+  requestContext: RequestContext;
+  /** The event bus used to publish intermediate or final events. */
+  eventBus: ExecutionEventBus;
+  /**
+   * Cancellation token of the task. Long-running handlers should wait with
+   * cancellableSleep and report progress so cancellations are prorated.
+   */
+  cancellation: CancellationToken;
+  /**
+   * Incremental output of the task: progress, partial text and artifact
+   * chunks, delivered to message/stream clients as they are published.
+   */
+  stream: TaskStream;
+  /** The plan ID credits are charged against. */
+  planId: string;
+  /** The registry the skill was dispatched from. */
+  registry: SkillRegistry;
+  /** The pricing table, for skills that bill outside the Executor or list prices. */
+  pricing: PricingEngine;
+  /** Logger of the task; its lines carry the taskId, contextId and skill. */
+  log: Logger;
+}
+
+/**
+ * The result of a skill handler. When `artifact` is set, the Executor
+ * publishes it as a structured artifact before the final status update.
+ * `args` are the structured arguments the skill ran with (or collected so
+ * far), remembered per conversation for follow-up messages. A result in the
+ * `input-required` state lists the `missing` arguments. Handlers do not set
+ * `creditsUsed`: the Executor prices the result from `usage`.
+ */
+export type SkillResult = TaskHandlerResult & {
+  artifact?: ArtifactContent;
+  usage?: UsageMetrics;
+  args?: Record<string, unknown>;
+  missing?: string[];
+};
+
+/**
+ * A pluggable agent capability. Adding a skill means writing one module
+ * that exports a Skill and registering it in the default registry.
+ */
+export interface Skill {
+  /** Unique skill identifier, also used as the AgentCard skill id. */
+  id: string;
+  /** Short label used in cost descriptions (e.g. "Weather"). */
+  label: string;
+  /** AgentCard metadata for the skill. */
+  card: Omit<AgentSkill, "id" | "inputSchema">;
+  /** JSON schema of the structured input accepted in DataParts. */
+  inputSchema?: JsonSchema;
+  /** Whether the skill accepts text FileParts. */
+  acceptsFiles?: boolean;
+  /** Default credits charged on success; the pricing config can override it. */
+  credits: number;
+  /**
+   * Default price formula over the reported usage (e.g. "3 + 2 * days");
+   * takes precedence over `credits` when set.
+   */
+  formula?: string;
+  /** Whether the handler publishes intermediate events while it runs. */
+  streaming?: boolean;
+  /**
+   * Whether the handler finishes in the background. Async skills publish
+   * their own final event, call eventBus.finished() and release their
+   * cancellation token.
+   */
+  async?: boolean;
+  /**
+   * Scores how well the skill fits the given text, from 0 (not at all)
+   * to 1 (certain). Used by the router to pick the best skill.
+   */
+  score(text: string): number;
+  /**
+   * Resolves a follow-up message in the same conversation into structured
+   * arguments, given the arguments of the previous (or pending) turn.
+   * Returns undefined if the text is not a follow-up this skill understands.
+   */
+  followUp?(
+    text: string,
+    previous: Record<string, unknown>
+  ): Record<string, unknown> | undefined;
+  /**
+   * Estimates the usage a request will report, for cost quotes. Skills
+   * with a fixed price do not need it.
+   */
+  estimateUsage?(input: SkillInput): UsageMetrics;
+  /**
+   * Handles the request and returns the result to publish.
+   */
+  handle(context: SkillContext): SkillResult | Promise<SkillResult>;
+}
@@ -0,0 +1,305 @@
+/**
+ * Weather skill: current conditions and multi-day forecasts for a location,
+ * from a pluggable WeatherProvider.
+ */
+
+import type { Skill } from "./types";
+import type { SkillInput } from "./input";
+import { hasAnyPhrase, hasPhrase } from "./text";
+import { stripFollowUpMarkers } from "../conversations";
+import {
+  WeatherError,
+  MAX_FORECAST_DAYS,
+  conditionsInUnits,
+  forecastInUnits,
+  unitLabels,
+} from "../weather";
+import type { WeatherProvider, WeatherUnits } from "../weather";
+
+/** Forecast length when "forecast" is asked for without a number of days. */
+const DEFAULT_FORECAST_DAYS = 3;
+
+/**
+ * Phrases that ask for a number of forecast days, with how to read it.
+ */
+const DAYS_PATTERNS: Array<[RegExp, (match: RegExpMatchArray) => number]> = [
+  [/\b(?:for\s+)?(?:the\s+)?next\s+(\d+)\s+days?\b/i, (m) => Number(m[1])],
+  [/\b(\d+)[-\s]day\s+forecast\b/i, (m) => Number(m[1])],
+  [/\bfor\s+(\d+)\s+days?\b/i, (m) => Number(m[1])],
+  [/\b(?:for\s+)?(?:the\s+|this\s+)?(?:next\s+)?week\b/i, () => MAX_FORECAST_DAYS],
+  [/\bforecast\b/i, () => DEFAULT_FORECAST_DAYS],
+];
+
+const UNIT_PATTERNS: Array<[RegExp, WeatherUnits]> = [
+  [/\b(?:in\s+)?(?:fahrenheit|imperial)\b/i, "imperial"],
+  [/\b(?:in\s+)?(?:celsius|metric)\b/i, "metric"],
+];
+
+/**
+ * Normalizes the units of a DataPart ("celsius" and "fahrenheit" are
+ * accepted as aliases).
+ */
+function normalizeUnits(units: unknown): WeatherUnits | undefined {
+  if (units === "metric" || units === "celsius") return "metric";
+  if (units === "imperial" || units === "fahrenheit") return "imperial";
+  return undefined;
+}
+
+/**
+ * Extracts the location from a text request ("What's the weather in Tokyo?").
+ * @returns The location, or an empty string if none is given.
+ */
+function parseLocation(text: string): string {
+  const match =
+    text.match(/\bweather\b(?:\s+(?:like\s+)?(?:in|for|at))?\s*(.*)$/i) ||
+    text.match(/\b(?:in|for|at)\s+(.+)$/i);
+  return (match ? match[1] : "").replace(/[?.!,\s]+$/, "").trim();
+}
+
+/**
+ * Removes the days and units phrases from a text request and returns what
+ * they asked for, so the remaining text only names the location.
+ */
+function parseModifiers(text: string): {
+  rest: string;
+  days?: number;
+  units?: WeatherUnits;
+} {
+  let rest = text;
+  let days: number | undefined;
+  let units: WeatherUnits | undefined;
+  for (const [pattern, read] of DAYS_PATTERNS) {
+    const match = rest.match(pattern);
+    if (!match) continue;
+    days = Math.min(MAX_FORECAST_DAYS, Math.max(1, read(match)));
+    rest = rest.replace(pattern, " ");
+    break;
+  }
+  for (const [pattern, value] of UNIT_PATTERNS) {
+    if (!pattern.test(rest)) continue;
+    units = value;
+    rest = rest.replace(pattern, " ");
+    break;
+  }
+  return { rest: rest.replace(/\s+/g, " ").trim(), days, units };
+}
+
+/**
+ * Resolves the location, units and forecast days from the structured input
+ * or the message text. `days` is undefined for current conditions.
+ */
+function parseWeatherRequest(
+  userText: string,
+  input: SkillInput
+): { location: string; units: WeatherUnits; days?: number } {
+  if (input.data) {
+    return {
+      location: String(input.data.location ?? "").trim(),
+      units: normalizeUnits(input.data.units) || "metric",
+      days: input.data.days as number | undefined,
+    };
+  }
+  const { rest, days, units } = parseModifiers(userText);
+  return { location: parseLocation(rest), units: units || "metric", days };
+}
+
+/**
+ * Creates the weather skill.
+ * @param provider - Where weather data comes from.
+ * @returns The weather skill.
+ */
+export function createWeatherSkill(provider: WeatherProvider): Skill {
+  return {
+    id: "weather",
+    label: "Weather",
+    card: {
+      name: "Weather Information",
+      description:
+        "Provides current weather conditions or a multi-day forecast for specified locations, in Celsius or Fahrenheit.",
+      tags: ["weather", "forecast", "location"],
+      examples: [
+        "Weather in London",
+        "What's the weather in Tokyo?",
+        "Weather in Tokyo for the next 3 days",
+      ],
+      inputModes: ["text/plain", "application/json"],
+      outputModes: ["text/plain", "application/json"],
+    },
+    inputSchema: {
+      type: "object",
+      properties: {
+        location: {
+          type: "string",
+          description: "City or place name",
+          minLength: 1,
+          maxLength: 200,
+        },
+        units: {
+          type: "string",
+          description:
+            "Unit system for temperature and wind speed (celsius and fahrenheit are aliases)",
+          enum: ["metric", "imperial", "celsius", "fahrenheit"],
+          default: "metric",
+        },
+        days: {
+          type: "integer",
+          description: "Number of forecast days; omit for current conditions",
+          minimum: 1,
+          maximum: MAX_FORECAST_DAYS,
+        },
+      },
+      required: ["location"],
+      additionalProperties: false,
+    },
+    // Current conditions cost 3 credits; forecasts 2 more per day
+    credits: 3,
+    formula: "3 + 2 * days",
+
+    /**
+     * Scores weather requests.
+     */
+    score(text) {
+      if (hasPhrase(text, "weather")) return 0.9;
+      if (hasAnyPhrase(text, ["forecast", "temperature"])) return 0.6;
+      return 0;
+    },
+
+    /**
+     * Resolves follow-ups such as "and in Paris?", "for the next 5 days"
+     * or a bare location answering a pending request.
+     */
+    followUp(text, previous) {
+      const { rest, days, units } = parseModifiers(text);
+      const location = hasPhrase(rest, "weather")
+        ? parseLocation(rest)
+        : stripFollowUpMarkers(rest, ["in", "for", "at"]);
+      if (!location && (!previous.location || (days === undefined && !units))) {
+        return undefined;
+      }
+      return {
+        location: location || previous.location,
+        units: units || previous.units,
+        days: days ?? previous.days,
+      };
+    },
+
+    /**
+     * Forecasts are priced by their number of days.
+     */
+    estimateUsage(input) {
+      return { days: parseWeatherRequest(input.text, input).days ?? 0 };
+    },
+
+    /**
+     * Handles weather requests.
+     */
+    async handle({ userText, input, stream, planId }) {
+      const { location, units, days } = parseWeatherRequest(userText, input);
+
+      if (!location) {
+        return {
+          parts: [
+            {
+              kind: "text",
+              text: "🌍 Which location would you like the weather for?",
+            },
+          ],
+          metadata: {
+            planId,
+            operationType: "weather_input_required",
+            missing: ["location"],
+          },
+          state: "input-required",
+          args: { units, days },
+          missing: ["location"],
+        };
+      }
+
+      const labels = unitLabels(units);
+      try {
+        stream.update(
+          days === undefined
+            ? `🔎 Looking up the weather in ${location}...`
+            : `🔎 Looking up the ${days}-day forecast for ${location}...`
+        );
+        if (days === undefined) {
+          const weatherData = conditionsInUnits(
+            await provider.current(location),
+            units
+          );
+          const text = `🌤️ Weather in ${location}:\n${weatherData.description}, ${weatherData.temperature}${labels.temperature}\nHumidity: ${weatherData.humidity}%\nWind: ${weatherData.windSpeed} ${labels.speed}`;
+
+          return {
+            parts: [{ kind: "text", text }],
+            artifact: {
+              name: "weather-result",
+              text,
+              data: { ...weatherData, units, provider: provider.name },
+            },
+            usage: { days: 0 },
+            metadata: {
+              planId,
+              costDescription: "Weather information request",
+              operationType: "weather",
+              location,
+              units,
+              weatherData,
+            },
+            state: "completed",
+            args: { location, units },
+          };
+        }
+
+        const forecast = forecastInUnits(
+          await provider.forecast(location, days),
+          units
+        );
+        const heading = `🌤️ ${days}-day forecast for ${location}:`;
+
+        // Stream the forecast day by day, as messages and artifact chunks
+        const artifact = stream.artifact("weather-forecast");
+        artifact.write(heading);
+        const lines = forecast.map((day, index) => {
+          const line = `📅 ${day.date}: ${day.description}, ${day.low}–${day.high}${labels.temperature}, ${day.precipitationChance}% precipitation, wind ${day.windSpeed} ${labels.speed}`;
+          artifact.write(`\n${line}`);
+          stream.progress(index + 1, forecast.length, line, { date: day.date });
+          return line;
+        });
+        artifact.close({
+          location,
+          units,
+          days,
+          forecast,
+          provider: provider.name,
+        });
+        const text = `${heading}\n${lines.join("\n")}`;
+
+        return {
+          parts: [{ kind: "text", text }],
+          usage: { days },
+          metadata: {
+            planId,
+            costDescription: `${days}-day weather forecast`,
+            operationType: "weather_forecast",
+            location,
+            units,
+            days,
+          },
+          state: "completed",
+          args: { location, units, days },
+        };
+      } catch (error) {
+        if (!(error instanceof WeatherError)) throw error;
+        return {
+          parts: [{ kind: "text", text: `Error: ${error.message}` }],
+          metadata: {
+            planId,
+            operationType: "weather_error",
+            location,
+          },
+          state: "failed",
+        };
+      }
+    },
+  };
+}
@@ -0,0 +1,255 @@
+/**
+ * Identification of the subscriber behind each A2A request. The payments
+ * library validates the bearer token before a task reaches the Executor but
+ * does not pass it on, so a middleware in front of the A2A routes verifies
+ * the token with the payments service itself and remembers who sent each
+ * message until the Executor claims it for its task.
+ */
+
+import crypto from "crypto";
+import express from "express";
+import type { RequestHandler, Response } from "express";
+import { logger } from "./logger";
+
+const log = logger.child({ component: "subscribers" });
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * The caller of a request.
+ */
+export interface Subscriber {
+  /** Stable identifier: the wallet address, or a hash of an opaque token. */
+  id: string;
+  /** Wallet address from the access token, when it carries one. */
+  address?: `0x${string}`;
+  /** The raw access token, for calls made on the subscriber's behalf. */
+  token: string;
+}
+
+/**
+ * Validates a subscriber's access token with the payments service.
+ * @returns The subscriber's plan balance, when known.
+ * @throws If the token is invalid or the caller is not a subscriber.
+ */
+export type TokenVerifier = (
+  subscriber: Subscriber
+) => Promise<{ balance?: number }>;
+
+/** How long a message is remembered before its task starts. */
+const MESSAGE_TTL_MS = 5 * 60 * 1000;
+
+/** How long a verified or rejected token is cached. */
+const VERIFICATION_TTL_MS = 60 * 1000;
+
+/** JSON-RPC error code of a request reusing a pending messageId. */
+const INVALID_REQUEST_ERROR_CODE = -32600;
+
+// ============================================================================
+// IDENTIFICATION
+// ============================================================================
+
+/**
+ * Decodes the payload of a JWT without verifying it.
+ * @returns The payload, or undefined if the token is not a JWT.
+ */
+function decodeJwtPayload(token: string): Record<string, unknown> | undefined {
+  const [, payload] = token.split(".");
+  if (!payload) return undefined;
+  try {
+    const decoded = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    return decoded && typeof decoded === "object" ? decoded : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Hashes an access token, so it can be used as a key without being kept.
+ */
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Identifies the subscriber an Authorization header claims to be. The token
+ * is not verified: only trust the result once the payments service accepted
+ * the token (see SubscriberDirectory.authenticate()).
+ * @param authorization - The header value, e.g. "Bearer <token>".
+ * @returns The claimed subscriber, or undefined if there is no bearer token.
+ */
+export function identifySubscriber(
+  authorization: string | undefined
+): Subscriber | undefined {
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  if (!match) return undefined;
+  const token = match[1].trim();
+  const payload = decodeJwtPayload(token);
+  const subject = typeof payload?.sub === "string" ? payload.sub : undefined;
+  if (subject && /^0x[0-9a-fA-F]{40}$/.test(subject)) {
+    const address = subject.toLowerCase() as `0x${string}`;
+    return { id: address, address, token };
+  }
+  return { id: subject || `token:${hashToken(token).slice(0, 16)}`, token };
+}
+
+/**
+ * Returns the subscriber the directory middleware verified for a request.
+ * @returns The subscriber, or undefined if the request has no valid token.
+ */
+export function verifiedSubscriber(res: Response): Subscriber | undefined {
+  return res.locals.subscriber;
+}
+
+// ============================================================================
+// DIRECTORY
+// ============================================================================
+
+/**
+ * Verifies the subscriber of each incoming message and remembers it until
+ * the Executor claims it for the message's task.
+ */
+export class SubscriberDirectory {
+  private readonly byMessageId = new Map<
+    string,
+    { subscriber: Subscriber; expiresAt: number }
+  >();
+  private readonly byTaskId = new Map<string, Subscriber>();
+  /** Verification results, keyed by token hash; undefined when rejected. */
+  private readonly verified = new Map<
+    string,
+    { subscriber?: Subscriber; expiresAt: number }
+  >();
+
+  /**
+   * Verifies the token of an Authorization header, caching the outcome.
+   * @param authorization - The header value, e.g. "Bearer <token>".
+   * @param verify - Validates the token with the payments service.
+   * @returns The subscriber, or undefined if there is no valid token.
+   */
+  async authenticate(
+    authorization: string | undefined,
+    verify: TokenVerifier
+  ): Promise<Subscriber | undefined> {
+    const claimed = identifySubscriber(authorization);
+    if (!claimed) return undefined;
+    const key = hashToken(claimed.token);
+    const cached = this.verified.get(key);
+    if (cached && cached.expiresAt > Date.now()) return cached.subscriber;
+
+    let subscriber: Subscriber | undefined;
+    try {
+      await verify(claimed);
+      subscriber = claimed;
+    } catch (error) {
+      log.debug("Token not verified", {
+        subscriber: claimed.id,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+    this.prune();
+    this.verified.set(key, {
+      subscriber,
+      expiresAt: Date.now() + VERIFICATION_TTL_MS,
+    });
+    return subscriber;
+  }
+
+  /**
+   * Records the verified subscriber that sent a message.
+   * @returns False if the messageId is already pending.
+   */
+  remember(messageId: string, subscriber: Subscriber): boolean {
+    this.prune();
+    if (this.byMessageId.has(messageId)) return false;
+    this.byMessageId.set(messageId, {
+      subscriber,
+      expiresAt: Date.now() + MESSAGE_TTL_MS,
+    });
+    return true;
+  }
+
+  /**
+   * Attributes the task a message started (or continued) to the message's
+   * subscriber, and forgets the message.
+   * @returns The subscriber, or undefined if the message was not verified.
+   */
+  claim(messageId: string, taskId: string): Subscriber | undefined {
+    const entry = this.byMessageId.get(messageId);
+    this.byMessageId.delete(messageId);
+    if (entry && entry.expiresAt > Date.now()) {
+      this.byTaskId.set(taskId, entry.subscriber);
+    } else {
+      this.byTaskId.delete(taskId);
+    }
+    return this.byTaskId.get(taskId);
+  }
+
+  /**
+   * Returns the subscriber a running task is attributed to, if known.
+   */
+  forTask(taskId: string): Subscriber | undefined {
+    return this.byTaskId.get(taskId);
+  }
+
+  /**
+   * Forgets the subscriber of a task, once its final event is published.
+   */
+  forget(taskId: string): void {
+    this.byTaskId.delete(taskId);
+  }
+
+  /**
+   * Builds the middleware that verifies the caller of every request, exposes
+   * it through verifiedSubscriber(), and records the sender of every
+   * message. A messageId that is still pending is refused. Mount it on the
+   * A2A base path.
+   * @param verify - Validates tokens with the payments service.
+   */
+  middleware(verify: TokenVerifier): RequestHandler[] {
+    return [
+      express.json(),
+      (req, res, next) => {
+        this.authenticate(req.headers.authorization, verify).then(
+          (subscriber) => {
+            if (!subscriber) return next();
+            res.locals.subscriber = subscriber;
+            const messageId = req.body?.params?.message?.messageId;
+            if (typeof messageId !== "string") return next();
+            if (!this.remember(messageId, subscriber)) {
+              res.status(409).json({
+                jsonrpc: "2.0",
+                id: req.body?.id ?? null,
+                error: {
+                  code: INVALID_REQUEST_ERROR_CODE,
+                  message: `messageId ${messageId} is already in use`,
+                },
+              });
+              return;
+            }
+            // Forget the message if no task claimed it by the end of the request
+            res.on("close", () => {
+              if (this.byMessageId.get(messageId)?.subscriber === subscriber) {
+                this.byMessageId.delete(messageId);
+              }
+            });
+            next();
+          },
+          next
+        );
+      },
+    ];
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [messageId, entry] of this.byMessageId) {
+      if (entry.expiresAt <= now) this.byMessageId.delete(messageId);
+    }
+    for (const [key, entry] of this.verified) {
+      if (entry.expiresAt <= now) this.verified.delete(key);
+    }
+  }
+}
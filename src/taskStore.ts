@@ -0,0 +1,270 @@
+/**
+ * Durable, file-backed task store for the A2A server. Each task is kept in
+ * its own JSON file with its status, history and artifacts, next to the
+ * metadata of its final event, so tasks/get and tasks/resubscribe keep
+ * working across agent restarts.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import type { Task } from "@nevermined-io/payments";
+import { logger } from "./logger";
+
+const log = logger.child({ component: "task-store" });
+
+/**
+ * The task store interface expected by the A2A server.
+ */
+export interface TaskStore {
+  save(task: Task): Promise<void>;
+  load(taskId: string): Promise<Task | undefined>;
+}
+
+/**
+ * What is persisted for each task.
+ */
+interface TaskRecord {
+  task: Task;
+  updatedAt: string;
+}
+
+/** States in which a task is still being processed by the agent. */
+const RUNNING_STATES = ["submitted", "working"];
+
+/** Shortest interval between two writes of a running task. */
+const SAVE_INTERVAL_MS = 1000;
+
+/**
+ * Key of the agent's own entries in `task.metadata`; load() exposes the
+ * final metadata as `metadata.nevermined.final`.
+ */
+const METADATA_NAMESPACE = "nevermined";
+
+/**
+ * Returns a task without the `metadata.nevermined.final` that load()
+ * exposes, since the final metadata is stored on its own. Any other
+ * metadata, including a `final` key set by the client, is kept.
+ */
+function withoutFinalMetadata(task: Task): Task {
+  const namespace = task.metadata?.[METADATA_NAMESPACE];
+  if (!namespace || typeof namespace !== "object" || !("final" in namespace)) {
+    return task;
+  }
+  const rest: Record<string, unknown> = { ...namespace };
+  delete rest.final;
+  const metadata: Record<string, unknown> = { ...task.metadata };
+  if (Object.keys(rest).length > 0) metadata[METADATA_NAMESPACE] = rest;
+  else delete metadata[METADATA_NAMESPACE];
+  return { ...task, metadata };
+}
+
+/**
+ * Task store that keeps one JSON file per task in a directory, and the
+ * metadata of each task's final event in a separate file under `final/`.
+ * Writes are atomic (temporary file + rename) and serialized per task.
+ * Running tasks are written at most once per SAVE_INTERVAL_MS, with their
+ * latest snapshot; other states are written right away.
+ */
+export class FileTaskStore implements TaskStore {
+  private readonly writeQueues = new Map<string, Promise<void>>();
+  /** Latest snapshot of each task not written yet. */
+  private readonly unsaved = new Map<string, Task>();
+  /** Throttled writes of running tasks. */
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+
+  constructor(private readonly directory: string) {}
+
+  /**
+   * Creates the storage directories if needed.
+   */
+  async init(): Promise<void> {
+    await fs.mkdir(path.join(this.directory, "final"), { recursive: true });
+  }
+
+  /**
+   * Saves a task. A running task is kept in memory and written with the
+   * next throttled write; other states are written before this resolves.
+   * @param task - The task to save.
+   */
+  async save(task: Task): Promise<void> {
+    this.unsaved.set(task.id, withoutFinalMetadata(task));
+    if (!RUNNING_STATES.includes(task.status.state)) {
+      await this.writeUnsaved(task.id);
+      return;
+    }
+    if (this.timers.has(task.id)) return;
+    const timer = setTimeout(() => {
+      this.writeUnsaved(task.id).catch((error) =>
+        log.error("Failed to save task", { taskId: task.id, error })
+      );
+    }, SAVE_INTERVAL_MS);
+    this.timers.set(task.id, timer);
+  }
+
+  /**
+   * Loads a task. The metadata of its final event, if any, is exposed
+   * under `metadata.nevermined.final`.
+   * @param taskId - The task ID.
+   */
+  async load(taskId: string): Promise<Task | undefined> {
+    await this.writeQueues.get(taskId)?.catch(() => undefined);
+    const task =
+      this.unsaved.get(taskId) ?? (await this.readRecord(taskId))?.task;
+    if (!task) return undefined;
+    const finalMetadata = await this.readJson<Record<string, unknown>>(
+      this.finalPath(taskId)
+    );
+    if (!finalMetadata) return task;
+    const namespace = task.metadata?.[METADATA_NAMESPACE];
+    return {
+      ...task,
+      metadata: {
+        ...task.metadata,
+        [METADATA_NAMESPACE]: {
+          ...(namespace && typeof namespace === "object" ? namespace : {}),
+          final: finalMetadata,
+        },
+      },
+    };
+  }
+
+  /**
+   * Records the metadata of a task's final event, in its own file.
+   * @param taskId - The task ID.
+   * @param metadata - The final event metadata.
+   */
+  async recordFinalMetadata(
+    taskId: string,
+    metadata: Record<string, unknown> | undefined
+  ): Promise<void> {
+    await this.enqueue(taskId, () =>
+      this.writeJson(this.finalPath(taskId), metadata || {})
+    );
+  }
+
+  /**
+   * Lists all stored tasks.
+   */
+  async list(): Promise<Task[]> {
+    const files = await fs.readdir(this.directory).catch(() => [] as string[]);
+    const tasks: Task[] = [];
+    for (const file of files) {
+      if (!file.endsWith(".json")) continue;
+      const record = await this.readJson<TaskRecord>(
+        path.join(this.directory, file)
+      );
+      if (record) tasks.push(record.task);
+    }
+    return tasks;
+  }
+
+  /**
+   * Marks every task left in a running state by a previous process as
+   * failed, so clients polling or resubscribing get a final answer.
+   * Call once at startup, before the server accepts requests.
+   * @returns The IDs of the tasks that were marked as failed.
+   */
+  async failInterruptedTasks(): Promise<string[]> {
+    const interrupted = (await this.list()).filter((task) =>
+      RUNNING_STATES.includes(task.status.state)
+    );
+    for (const task of interrupted) {
+      const timestamp = new Date().toISOString();
+      await this.save({
+        ...task,
+        status: {
+          state: "failed",
+          message: {
+            kind: "message",
+            role: "agent",
+            messageId: `${task.id}-interrupted`,
+            parts: [
+              {
+                kind: "text",
+                text: "The agent restarted while this task was running. Please retry.",
+              },
+            ],
+            taskId: task.id,
+            contextId: task.contextId,
+          },
+          timestamp,
+        },
+      });
+      await this.recordFinalMetadata(task.id, {
+        creditsUsed: 0,
+        errorType: "agent_restarted",
+      });
+    }
+    return interrupted.map((task) => task.id);
+  }
+
+  /**
+   * Writes the tasks waiting for a throttled write, then waits until every
+   * pending write is done.
+   */
+  async flush(): Promise<void> {
+    await Promise.allSettled(
+      Array.from(this.unsaved.keys(), (taskId) => this.writeUnsaved(taskId))
+    );
+    await Promise.allSettled(this.writeQueues.values());
+  }
+
+  /**
+   * Writes the latest snapshot of a task, if it has not been written yet.
+   * Snapshots saved while a write is queued are written once, together.
+   */
+  private writeUnsaved(taskId: string): Promise<void> {
+    clearTimeout(this.timers.get(taskId));
+    this.timers.delete(taskId);
+    return this.enqueue(taskId, async () => {
+      const task = this.unsaved.get(taskId);
+      if (!task) return;
+      this.unsaved.delete(taskId);
+      const record: TaskRecord = { task, updatedAt: new Date().toISOString() };
+      await this.writeJson(this.filePath(taskId), record);
+    });
+  }
+
+  /**
+   * Runs an operation after all pending writes for the same task.
+   */
+  private enqueue(taskId: string, operation: () => Promise<void>): Promise<void> {
+    const previous = this.writeQueues.get(taskId) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(operation);
+    this.writeQueues.set(taskId, next);
+    return next.finally(() => {
+      if (this.writeQueues.get(taskId) === next) this.writeQueues.delete(taskId);
+    });
+  }
+
+  private filePath(taskId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(taskId)}.json`);
+  }
+
+  private finalPath(taskId: string): string {
+    return path.join(
+      this.directory,
+      "final",
+      `${encodeURIComponent(taskId)}.json`
+    );
+  }
+
+  private readRecord(taskId: string): Promise<TaskRecord | undefined> {
+    return this.readJson<TaskRecord>(this.filePath(taskId));
+  }
+
+  private async readJson<T>(file: string): Promise<T | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(file, "utf8")) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  private async writeJson(file: string, value: unknown): Promise<void> {
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(value, null, 2), "utf8");
+    await fs.rename(tmp, file);
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Incremental output of a running task over the ExecutionEventBus. Skills
+ * publish progress, partial text and artifact chunks through a TaskStream
+ * while they work; message/stream clients receive them as they happen and
+ * message/send clients still get only the final result.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { ArtifactWriter } from "./artifacts";
+import { cancellableSleep } from "./cancellation";
+import type { CancellationToken } from "./cancellation";
+
+export class TaskStream {
+  /**
+   * @param token - Cancellation token of the task; carries the task, the
+   *   context and the event bus, and receives the reported progress.
+   */
+  constructor(private readonly token: CancellationToken) {}
+
+  /**
+   * Publishes a `working` status-update carrying a text message.
+   * @param text - The partial output, e.g. a line of the result.
+   * @param metadata - Metadata of the event.
+   * @throws TaskCancelledError if the task has been cancelled.
+   */
+  update(text: string, metadata?: Record<string, unknown>): void {
+    this.publishWorking(text, metadata);
+  }
+
+  /**
+   * Reports progress: records it for prorated cancellation billing and
+   * publishes it as a `working` status-update.
+   * @param completed - Units of work done.
+   * @param total - Total units of work.
+   * @param text - Optional message to publish with the progress.
+   * @param metadata - Extra metadata of the event.
+   */
+  progress(
+    completed: number,
+    total: number,
+    text?: string,
+    metadata?: Record<string, unknown>
+  ): void {
+    this.token.throwIfCancelled();
+    this.token.setProgress(completed, total);
+    this.publishWorking(text, { ...metadata, progress: { completed, total } });
+  }
+
+  /**
+   * Publishes a heartbeat: a `working` status-update without a message,
+   * marked with `metadata.heartbeat`, to keep idle connections open.
+   */
+  heartbeat(metadata?: Record<string, unknown>): void {
+    this.publishWorking(undefined, { ...metadata, heartbeat: true });
+  }
+
+  /**
+   * Waits, publishing a heartbeat every `heartbeatIntervalMs` of the wait.
+   * @param ms - How long to wait.
+   * @param heartbeatIntervalMs - Idle time between heartbeats.
+   * @param metadata - Metadata of the heartbeats.
+   * @returns The number of heartbeats sent.
+   * @throws TaskCancelledError if the task is cancelled while waiting.
+   */
+  async idle(
+    ms: number,
+    heartbeatIntervalMs: number,
+    metadata?: Record<string, unknown>
+  ): Promise<number> {
+    let remaining = ms;
+    let heartbeats = 0;
+    while (remaining > heartbeatIntervalMs) {
+      await cancellableSleep(heartbeatIntervalMs, this.token);
+      remaining -= heartbeatIntervalMs;
+      this.heartbeat(metadata);
+      heartbeats++;
+    }
+    await cancellableSleep(remaining, this.token);
+    return heartbeats;
+  }
+
+  /**
+   * Opens an artifact whose text is published chunk by chunk. The skill
+   * closes it with the structured result and does not return it as the
+   * result artifact.
+   * @param name - Artifact name.
+   * @param description - Optional human-readable description.
+   */
+  artifact(name: string, description?: string): ArtifactWriter {
+    const { eventBus, taskId, contextId } = this.token;
+    return new ArtifactWriter(eventBus, taskId, contextId, name, description);
+  }
+
+  private publishWorking(
+    text: string | undefined,
+    metadata: Record<string, unknown> | undefined
+  ): void {
+    this.token.throwIfCancelled();
+    const { eventBus, taskId, contextId } = this.token;
+    eventBus.publish({
+      kind: "status-update",
+      taskId,
+      contextId,
+      status: {
+        state: "working",
+        message:
+          text === undefined
+            ? undefined
+            : {
+                kind: "message",
+                role: "agent",
+                messageId: uuidv4(),
+                parts: [{ kind: "text", text }],
+                taskId,
+                contextId,
+              },
+        timestamp: new Date().toISOString(),
+      },
+      final: false,
+      metadata,
+    });
+  }
+}
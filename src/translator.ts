@@ -0,0 +1,344 @@
+/**
+ * Phrase-table translation engine behind the translation skill. Each table
+ * maps English phrases to one language, so any two languages translate
+ * through English. Whole phrases are looked up first; otherwise the text is
+ * translated word by word (longest known phrase first) and unknown words
+ * are kept as they are. Languages are identified by ISO 639-1 code and can
+ * be named by code, English name or native name.
+ */
+
+import fs from "fs";
+import path from "path";
+import es from "./data/phrases/es.json";
+import fr from "./data/phrases/fr.json";
+import de from "./data/phrases/de.json";
+import it from "./data/phrases/it.json";
+import pt from "./data/phrases/pt.json";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Phrases of one language, keyed by the English phrase.
+ */
+export interface PhraseTable {
+  /** ISO 639-1 code of the language. */
+  language: string;
+  phrases: Record<string, string>;
+}
+
+/**
+ * How a text was translated.
+ * - `phrase`: the whole text is a known phrase.
+ * - `word-by-word`: known phrases and words were translated piecewise.
+ * - `identity`: source and target are the same language.
+ */
+export type TranslationMethod = "phrase" | "word-by-word" | "identity";
+
+/**
+ * Result of a translation.
+ */
+export interface TranslationResult {
+  translatedText: string;
+  /** ISO 639-1 code of the source language (given or detected). */
+  sourceLanguage: string;
+  /** Whether the source language was detected rather than given. */
+  detected: boolean;
+  /** ISO 639-1 code of the target language. */
+  targetLanguage: string;
+  method: TranslationMethod;
+  /** Words of the text no phrase table knows, left untranslated. */
+  untranslated: string[];
+}
+
+/**
+ * Error raised when a language is unknown or has no phrase table.
+ */
+export class TranslationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TranslationError";
+  }
+}
+
+/** The pivot language of the phrase tables. */
+const PIVOT = "en";
+
+/** Longest phrase, in words, tried during word-by-word translation. */
+const MAX_PHRASE_WORDS = 4;
+
+// ============================================================================
+// LANGUAGES
+// ============================================================================
+
+/**
+ * ISO 639-1 languages with their English name and the other names they are
+ * known by (ISO 639-2/3 codes, native and common foreign names).
+ */
+const LANGUAGES: Record<string, { name: string; aliases: string[] }> = {
+  en: { name: "English", aliases: ["eng", "english", "ingles", "anglais", "englisch", "inglese"] },
+  es: { name: "Spanish", aliases: ["spa", "spanish", "espanol", "castellano", "espagnol", "spanisch", "spagnolo"] },
+  fr: { name: "French", aliases: ["fra", "fre", "french", "francais", "frances", "franzosisch", "francese"] },
+  de: { name: "German", aliases: ["deu", "ger", "german", "deutsch", "aleman", "allemand", "tedesco"] },
+  it: { name: "Italian", aliases: ["ita", "italian", "italiano", "italien", "italienisch"] },
+  pt: { name: "Portuguese", aliases: ["por", "portuguese", "portugues", "portugais", "portugiesisch", "portoghese"] },
+  nl: { name: "Dutch", aliases: ["nld", "dut", "dutch", "nederlands", "hollandais"] },
+  ru: { name: "Russian", aliases: ["rus", "russian", "русский", "russe", "ruso"] },
+  ja: { name: "Japanese", aliases: ["jpn", "japanese", "日本語", "nihongo", "japonais", "japones"] },
+  zh: { name: "Chinese", aliases: ["zho", "chi", "chinese", "mandarin", "中文", "chinois", "chino"] },
+};
+
+/**
+ * Lowercases a string and strips diacritics ("Español" → "espanol").
+ */
+function fold(value: string): string {
+  return value.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase().trim();
+}
+
+/**
+ * Returns true if a code is a known language (and not an Object.prototype
+ * member such as "constructor").
+ */
+function isLanguageCode(code: string): boolean {
+  return Object.prototype.hasOwnProperty.call(LANGUAGES, code);
+}
+
+/**
+ * Resolves a language code or name to its ISO 639-1 code.
+ * @param language - E.g. "es", "spa", "Spanish" or "Español".
+ * @returns The code, or undefined if the language is unknown.
+ */
+export function normalizeLanguage(language: string): string | undefined {
+  const folded = fold(language);
+  if (isLanguageCode(folded)) return folded;
+  return Object.keys(LANGUAGES).find((code) =>
+    LANGUAGES[code].aliases.includes(folded)
+  );
+}
+
+/**
+ * Returns the English name of a language code ("es" → "Spanish").
+ */
+export function languageName(code: string): string {
+  return isLanguageCode(code) ? LANGUAGES[code].name : code;
+}
+
+// ============================================================================
+// TEXT
+// ============================================================================
+
+/**
+ * Normalizes a phrase for lookups: lowercase, no punctuation, single spaces.
+ */
+function normalizePhrase(phrase: string): string {
+  return phrase
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}'\s-]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Splits normalized text into words.
+ */
+function words(text: string): string[] {
+  return normalizePhrase(text).split(" ").filter(Boolean);
+}
+
+/**
+ * Greedily segments words into the longest known phrases.
+ * @returns The segments, each with its translation when known.
+ */
+function segment(
+  input: string[],
+  lookup: (phrase: string) => string | undefined
+): Array<{ source: string; target?: string }> {
+  const segments: Array<{ source: string; target?: string }> = [];
+  let i = 0;
+  while (i < input.length) {
+    let matched = false;
+    for (let n = Math.min(MAX_PHRASE_WORDS, input.length - i); n > 0; n--) {
+      const phrase = input.slice(i, i + n).join(" ");
+      const target = lookup(phrase);
+      if (target !== undefined) {
+        segments.push({ source: phrase, target });
+        i += n;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) {
+      segments.push({ source: input[i] });
+      i += 1;
+    }
+  }
+  return segments;
+}
+
+// ============================================================================
+// TRANSLATOR
+// ============================================================================
+
+/** Phrase tables shipped with the agent. */
+export const BUILT_IN_PHRASE_TABLES: PhraseTable[] = [es, fr, de, it, pt];
+
+export class Translator {
+  /** English phrase → phrase, per language (normalized). */
+  private readonly fromEnglish = new Map<string, Map<string, string>>();
+  /** Phrase → English phrase, per language (normalized). */
+  private readonly toEnglish = new Map<string, Map<string, string>>();
+
+  /**
+   * @param tables - Phrase tables; later tables extend and override earlier ones.
+   */
+  constructor(tables: PhraseTable[] = BUILT_IN_PHRASE_TABLES) {
+    for (const table of tables) this.addTable(table);
+  }
+
+  /**
+   * Creates a translator with the built-in tables plus every `*.json`
+   * table in a directory.
+   * @param directory - Directory of phrase table files.
+   */
+  static withDirectory(directory: string): Translator {
+    const tables = fs
+      .readdirSync(directory)
+      .filter((file) => file.endsWith(".json"))
+      .map(
+        (file) =>
+          JSON.parse(
+            fs.readFileSync(path.join(directory, file), "utf8")
+          ) as PhraseTable
+      );
+    return new Translator([...BUILT_IN_PHRASE_TABLES, ...tables]);
+  }
+
+  /**
+   * Adds a phrase table, extending any table of the same language.
+   * @throws TranslationError if the language is unknown.
+   */
+  addTable(table: PhraseTable): void {
+    const code = normalizeLanguage(table.language);
+    if (!code) {
+      throw new TranslationError(`Unknown phrase table language "${table.language}"`);
+    }
+    const fromEnglish = this.fromEnglish.get(code) ?? new Map<string, string>();
+    const toEnglish = this.toEnglish.get(code) ?? new Map<string, string>();
+    for (const [english, phrase] of Object.entries(table.phrases)) {
+      fromEnglish.set(normalizePhrase(english), phrase);
+      const key = normalizePhrase(phrase);
+      if (!toEnglish.has(key)) toEnglish.set(key, normalizePhrase(english));
+    }
+    this.fromEnglish.set(code, fromEnglish);
+    this.toEnglish.set(code, toEnglish);
+  }
+
+  /**
+   * Returns the codes of the languages that can be translated from and to.
+   */
+  languages(): string[] {
+    return [PIVOT, ...this.fromEnglish.keys()];
+  }
+
+  /**
+   * Returns true if the language has a phrase table (or is English).
+   */
+  supports(code: string): boolean {
+    return code === PIVOT || this.fromEnglish.has(code);
+  }
+
+  /**
+   * Detects the language of a text: the one whose phrases cover most of
+   * its words. English wins ties.
+   * @returns The language code and the share of words recognized (0-1).
+   */
+  detect(text: string): { language: string; confidence: number } {
+    const input = words(text);
+    let best = { language: PIVOT, confidence: 0 };
+    for (const code of this.languages()) {
+      const known =
+        code === PIVOT
+          ? (phrase: string) =>
+              Array.from(this.fromEnglish.values()).some((table) =>
+                table.has(phrase)
+              )
+                ? phrase
+                : undefined
+          : (phrase: string) => this.toEnglish.get(code)!.get(phrase);
+      const covered = segment(input, known)
+        .filter((part) => part.target !== undefined)
+        .reduce((sum, part) => sum + part.source.split(" ").length, 0);
+      const confidence = input.length > 0 ? covered / input.length : 0;
+      if (confidence > best.confidence) best = { language: code, confidence };
+    }
+    return { ...best, confidence: Math.round(best.confidence * 100) / 100 };
+  }
+
+  /**
+   * Translates a text.
+   * @param text - The text to translate.
+   * @param target - Target language code or name.
+   * @param source - Source language code or name; detected when omitted.
+   * @throws TranslationError if a language is unknown or unsupported.
+   */
+  translate(text: string, target: string, source?: string): TranslationResult {
+    const targetLanguage = this.resolve(target);
+    const sourceLanguage = source
+      ? this.resolve(source)
+      : this.detect(text).language;
+    const base = { sourceLanguage, detected: !source, targetLanguage };
+
+    if (sourceLanguage === targetLanguage) {
+      return { ...base, translatedText: text, method: "identity", untranslated: [] };
+    }
+
+    const lookup = (phrase: string) => {
+      const english =
+        sourceLanguage === PIVOT
+          ? phrase
+          : this.toEnglish.get(sourceLanguage)!.get(phrase);
+      if (english === undefined) return undefined;
+      return targetLanguage === PIVOT
+        ? english
+        : this.fromEnglish.get(targetLanguage)!.get(english);
+    };
+
+    const whole = lookup(normalizePhrase(text));
+    if (whole !== undefined) {
+      return { ...base, translatedText: whole, method: "phrase", untranslated: [] };
+    }
+
+    const segments = segment(words(text), lookup);
+    const translated = segments
+      .map((part) => part.target ?? part.source)
+      .join(" ");
+    // Keep the text's final punctuation unless the last phrase brought its own
+    const ending = text.trim().match(/[?!.]+$/)?.[0] ?? "";
+    return {
+      ...base,
+      translatedText: /[?!.]$/.test(translated) ? translated : translated + ending,
+      method: "word-by-word",
+      untranslated: segments
+        .filter((part) => part.target === undefined)
+        .map((part) => part.source),
+    };
+  }
+
+  /**
+   * Resolves a language code or name to a supported language code.
+   */
+  private resolve(language: string): string {
+    const code = normalizeLanguage(language);
+    if (!code) throw new TranslationError(`Unknown language "${language}"`);
+    if (!this.supports(code)) {
+      throw new TranslationError(
+        `${languageName(code)} is not supported yet (supported: ${this.languages()
+          .map(languageName)
+          .join(", ")})`
+      );
+    }
+    return code;
+  }
+}
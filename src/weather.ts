@@ -0,0 +1,358 @@
+/**
+ * Weather data behind the weather skill. Providers implement WeatherProvider
+ * and always return metric values (°C, km/h); conversion to the requested
+ * units happens on the way out. Two providers are built in: fixtures loaded
+ * from JSON, and a seeded simulator that returns the same answer for the
+ * same location and time. Both can be wrapped in a TTL cache.
+ */
+
+import fs from "fs";
+import defaultFixtures from "./data/weather-fixtures.json";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Current conditions at a location, in metric units.
+ */
+export interface WeatherConditions {
+  location: string;
+  description: string;
+  /** Temperature in °C. */
+  temperature: number;
+  /** Relative humidity in %. */
+  humidity: number;
+  /** Wind speed in km/h. */
+  windSpeed: number;
+  /** When the conditions were observed (ISO 8601). */
+  observedAt: string;
+}
+
+/**
+ * Forecast for one day, in metric units.
+ */
+export interface DailyForecast {
+  /** Day of the forecast (YYYY-MM-DD, UTC). */
+  date: string;
+  description: string;
+  /** Highest and lowest temperature in °C. */
+  high: number;
+  low: number;
+  /** Chance of precipitation in %. */
+  precipitationChance: number;
+  /** Wind speed in km/h. */
+  windSpeed: number;
+}
+
+/**
+ * Source of weather data.
+ */
+export interface WeatherProvider {
+  readonly name: string;
+  /** Current conditions at a location. */
+  current(location: string): Promise<WeatherConditions>;
+  /** Forecast for the next `days` days, starting today. */
+  forecast(location: string, days: number): Promise<DailyForecast[]>;
+}
+
+/**
+ * Unit system of the values returned to the user.
+ */
+export type WeatherUnits = "metric" | "imperial";
+
+/** Maximum number of forecast days. */
+export const MAX_FORECAST_DAYS = 7;
+
+/**
+ * Error raised when a provider has no data for a request.
+ */
+export class WeatherError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WeatherError";
+  }
+}
+
+const CONDITIONS = [
+  "Sunny",
+  "Cloudy",
+  "Rainy",
+  "Snowy",
+  "Windy",
+  "Partly Cloudy",
+];
+
+/**
+ * Normalizes a location for lookups and cache keys ("  New  York " → "new york").
+ */
+function normalizeLocation(location: string): string {
+  return location.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Returns the UTC date (YYYY-MM-DD) `offset` days after `now`.
+ */
+function dayAfter(now: Date, offset: number): string {
+  return new Date(now.getTime() + offset * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .slice(0, 10);
+}
+
+// ============================================================================
+// FIXTURE PROVIDER
+// ============================================================================
+
+/**
+ * Weather fixtures keyed by normalized location. The forecast list starts
+ * today; requests for more days than listed fail.
+ */
+export type WeatherFixtures = Record<
+  string,
+  {
+    current: Omit<WeatherConditions, "location" | "observedAt">;
+    forecast: Array<Omit<DailyForecast, "date">>;
+  }
+>;
+
+/**
+ * Provider that answers from fixed data, for tests and demos.
+ */
+export class FixtureWeatherProvider implements WeatherProvider {
+  readonly name = "fixtures";
+
+  /**
+   * @param fixtures - The fixtures (default: the built-in ones).
+   * @param now - Clock used for timestamps and forecast dates.
+   */
+  constructor(
+    private readonly fixtures: WeatherFixtures = defaultFixtures,
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  /**
+   * Loads fixtures from a JSON file.
+   * @param file - Path of the JSON file.
+   */
+  static fromFile(file: string): FixtureWeatherProvider {
+    return new FixtureWeatherProvider(JSON.parse(fs.readFileSync(file, "utf8")));
+  }
+
+  private lookup(location: string) {
+    const fixture = this.fixtures[normalizeLocation(location)];
+    if (!fixture) {
+      throw new WeatherError(`No weather data available for ${location}`);
+    }
+    return fixture;
+  }
+
+  async current(location: string): Promise<WeatherConditions> {
+    return {
+      location,
+      ...this.lookup(location).current,
+      observedAt: this.now().toISOString(),
+    };
+  }
+
+  async forecast(location: string, days: number): Promise<DailyForecast[]> {
+    const { forecast } = this.lookup(location);
+    if (days > forecast.length) {
+      throw new WeatherError(
+        `Only ${forecast.length} forecast days are available for ${location}`
+      );
+    }
+    const now = this.now();
+    return forecast
+      .slice(0, days)
+      .map((day, offset) => ({ date: dayAfter(now, offset), ...day }));
+  }
+}
+
+// ============================================================================
+// SEEDED SIMULATOR
+// ============================================================================
+
+/**
+ * Hashes a string to a 32-bit seed (FNV-1a).
+ */
+function hashSeed(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Small deterministic PRNG (mulberry32) returning numbers in [0, 1).
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Provider that simulates plausible weather. Values depend only on the seed,
+ * the location and the hour (current) or day (forecast), so repeated
+ * requests agree with each other.
+ */
+export class SeededWeatherSimulator implements WeatherProvider {
+  readonly name = "simulator";
+
+  /**
+   * @param seed - Seed shared by every location.
+   * @param now - Clock used to pick the hour and forecast days.
+   */
+  constructor(
+    private readonly seed: number = 42,
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  private random(location: string, bucket: string): () => number {
+    return createRandom(
+      hashSeed(`${this.seed}|${normalizeLocation(location)}|${bucket}`)
+    );
+  }
+
+  async current(location: string): Promise<WeatherConditions> {
+    const now = this.now();
+    const random = this.random(location, now.toISOString().slice(0, 13));
+    return {
+      location,
+      description: CONDITIONS[Math.floor(random() * CONDITIONS.length)],
+      temperature: Math.floor(random() * 30) + 5, // 5-35°C
+      humidity: Math.floor(random() * 40) + 30, // 30-70%
+      windSpeed: Math.floor(random() * 20) + 5, // 5-25 km/h
+      observedAt: now.toISOString(),
+    };
+  }
+
+  async forecast(location: string, days: number): Promise<DailyForecast[]> {
+    const now = this.now();
+    return Array.from({ length: days }, (_, offset) => {
+      const date = dayAfter(now, offset);
+      const random = this.random(location, date);
+      const low = Math.floor(random() * 20) + 0; // 0-20°C
+      return {
+        date,
+        description: CONDITIONS[Math.floor(random() * CONDITIONS.length)],
+        high: low + Math.floor(random() * 12) + 3,
+        low,
+        precipitationChance: Math.floor(random() * 20) * 5,
+        windSpeed: Math.floor(random() * 20) + 5,
+      };
+    });
+  }
+}
+
+// ============================================================================
+// CACHE
+// ============================================================================
+
+/**
+ * Provider decorator that caches responses per location for a TTL.
+ * Failed lookups are not cached.
+ */
+export class CachedWeatherProvider implements WeatherProvider {
+  private readonly cache = new Map<
+    string,
+    { expiresAt: number; value: Promise<unknown> }
+  >();
+
+  /**
+   * @param inner - The provider to cache.
+   * @param ttlMs - How long a response is reused.
+   * @param now - Clock used for expiry.
+   */
+  constructor(
+    private readonly inner: WeatherProvider,
+    private readonly ttlMs: number,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  current(location: string): Promise<WeatherConditions> {
+    return this.cached(`current|${normalizeLocation(location)}`, () =>
+      this.inner.current(location)
+    );
+  }
+
+  forecast(location: string, days: number): Promise<DailyForecast[]> {
+    return this.cached(`forecast|${normalizeLocation(location)}|${days}`, () =>
+      this.inner.forecast(location, days)
+    );
+  }
+
+  private cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const now = this.now();
+    const entry = this.cache.get(key);
+    if (entry && entry.expiresAt > now) return entry.value as Promise<T>;
+
+    const value = load();
+    this.cache.set(key, { expiresAt: now + this.ttlMs, value });
+    value.catch(() => {
+      if (this.cache.get(key)?.value === value) this.cache.delete(key);
+    });
+    return value;
+  }
+}
+
+// ============================================================================
+// UNITS
+// ============================================================================
+
+const toFahrenheit = (celsius: number) => Math.round(celsius * 1.8 + 32);
+const toMph = (kmh: number) => Math.round(kmh * 0.621371);
+
+/**
+ * Converts current conditions to the requested units.
+ */
+export function conditionsInUnits(
+  conditions: WeatherConditions,
+  units: WeatherUnits
+): WeatherConditions {
+  if (units === "metric") return conditions;
+  return {
+    ...conditions,
+    temperature: toFahrenheit(conditions.temperature),
+    windSpeed: toMph(conditions.windSpeed),
+  };
+}
+
+/**
+ * Converts a forecast to the requested units.
+ */
+export function forecastInUnits(
+  forecast: DailyForecast[],
+  units: WeatherUnits
+): DailyForecast[] {
+  if (units === "metric") return forecast;
+  return forecast.map((day) => ({
+    ...day,
+    high: toFahrenheit(day.high),
+    low: toFahrenheit(day.low),
+    windSpeed: toMph(day.windSpeed),
+  }));
+}
+
+/**
+ * Returns the temperature and speed unit labels of a unit system.
+ */
+export function unitLabels(units: WeatherUnits): {
+  temperature: string;
+  speed: string;
+} {
+  return units === "imperial"
+    ? { temperature: "°F", speed: "mph" }
+    : { temperature: "°C", speed: "km/h" };
+}
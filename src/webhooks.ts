@@ -0,0 +1,168 @@
+/**
+ * Verification of the push notifications the client's webhook receives.
+ * Only tasks the client registered a PushNotificationConfig for are
+ * accepted; each delivery must carry a valid signature or the registered
+ * bearer credential, be recent, and not have been processed before.
+ */
+
+import crypto from "crypto";
+import type { PushNotificationConfig } from "@nevermined-io/payments";
+import {
+  PUSH_SIGNATURE_HEADER,
+  PUSH_TIMESTAMP_HEADER,
+  PUSH_TOKEN_HEADER,
+  pushSigningSecret,
+  signPushPayload,
+} from "./push";
+import type { PushNotificationPayload } from "./push";
+import { safeEqual } from "./security";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Outcome of verifying a delivery.
+ * - `accepted`: new and authentic; process it.
+ * - `duplicate`: authentic but already processed; acknowledge and skip it.
+ * - `rejected`: refused with an HTTP status and a reason.
+ */
+export type WebhookVerdict =
+  | { kind: "accepted"; payload: PushNotificationPayload }
+  | { kind: "duplicate"; payload: PushNotificationPayload }
+  | { kind: "rejected"; status: number; reason: string; taskId?: string };
+
+/**
+ * Request headers, as received by the HTTP server (lowercase names).
+ */
+export type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+/**
+ * Returns the first value of a header.
+ */
+function header(headers: WebhookHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Returns the bearer credential the config asks the sender to present, if
+ * its schemes include Bearer.
+ */
+function bearerCredential(config: PushNotificationConfig): string | undefined {
+  const schemes: string[] = config.authentication?.schemes ?? [];
+  return schemes.some((scheme) => scheme.toLowerCase() === "bearer")
+    ? config.authentication?.credentials || undefined
+    : undefined;
+}
+
+// ============================================================================
+// VERIFIER
+// ============================================================================
+
+export class WebhookVerifier {
+  /** Configs the client registered, keyed by taskId. */
+  private readonly tasks = new Map<string, PushNotificationConfig>();
+  /** Delivery IDs already processed, with when they can be forgotten. */
+  private readonly seen = new Map<string, number>();
+
+  /**
+   * @param maxAgeSeconds - Oldest (or furthest in the future) timestamp accepted.
+   * @param now - Clock, in milliseconds.
+   */
+  constructor(
+    private readonly maxAgeSeconds: number,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Registers the config set for a task. Register it before sending it to
+   * the agent so no delivery can arrive first.
+   */
+  register(taskId: string, config: PushNotificationConfig): void {
+    this.tasks.set(taskId, config);
+  }
+
+  /**
+   * Verifies a delivery.
+   * @param headers - The request headers.
+   * @param rawBody - The raw request body, as signed by the sender.
+   */
+  verify(headers: WebhookHeaders, rawBody: string): WebhookVerdict {
+    let payload: PushNotificationPayload;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return { kind: "rejected", status: 400, reason: "body is not JSON" };
+    }
+    const taskId = typeof payload?.taskId === "string" ? payload.taskId : undefined;
+    if (!taskId) {
+      return { kind: "rejected", status: 400, reason: "payload has no taskId" };
+    }
+    const reject = (status: number, reason: string): WebhookVerdict => ({
+      kind: "rejected",
+      status,
+      reason,
+      taskId,
+    });
+
+    const config = this.tasks.get(taskId);
+    if (!config) return reject(404, "unknown taskId");
+
+    // Authenticity: the signature when sent, otherwise the bearer
+    // credential or the notification token
+    const timestamp = header(headers, PUSH_TIMESTAMP_HEADER);
+    const signature = header(headers, PUSH_SIGNATURE_HEADER);
+    const secret = pushSigningSecret(config);
+    const bearer = bearerCredential(config);
+    if (signature) {
+      if (!secret) return reject(401, "signed delivery for a task without a secret");
+      if (!timestamp) return reject(401, "signature without timestamp");
+      if (!safeEqual(signature, signPushPayload(rawBody, secret, timestamp))) {
+        return reject(401, "invalid signature");
+      }
+    } else if (bearer) {
+      const match = header(headers, "authorization")?.match(/^Bearer\s+(.+)$/i);
+      if (!match || !safeEqual(match[1].trim(), bearer)) {
+        return reject(401, "missing or invalid bearer credential");
+      }
+    } else if (config.token) {
+      const token = header(headers, PUSH_TOKEN_HEADER);
+      if (!token || !safeEqual(token, config.token)) {
+        return reject(401, "missing or invalid notification token");
+      }
+    }
+
+    // Freshness: the signing time, or else the status timestamp
+    const sentAt = timestamp
+      ? Number(timestamp) * 1000
+      : Date.parse(String(payload.status?.timestamp ?? ""));
+    if (!Number.isFinite(sentAt)) return reject(400, "missing timestamp");
+    const ageSeconds = Math.abs(this.now() - sentAt) / 1000;
+    if (ageSeconds > this.maxAgeSeconds) {
+      return reject(
+        400,
+        `stale timestamp (${Math.round(ageSeconds)}s old, limit ${this.maxAgeSeconds}s)`
+      );
+    }
+
+    // Replays: every attempt of one notification shares its delivery ID.
+    // Only the signed body is trusted for it, not the delivery ID header
+    this.prune();
+    const deliveryId =
+      typeof payload.deliveryId === "string" && payload.deliveryId
+        ? payload.deliveryId
+        : crypto.createHash("sha256").update(rawBody).digest("hex");
+    if (this.seen.has(deliveryId)) return { kind: "duplicate", payload };
+    // Anything older is refused as stale, so IDs can be forgotten then
+    this.seen.set(deliveryId, this.now() + 2 * this.maxAgeSeconds * 1000);
+    return { kind: "accepted", payload };
+  }
+
+  private prune(): void {
+    const now = this.now();
+    for (const [deliveryId, expiresAt] of this.seen) {
+      if (expiresAt <= now) this.seen.delete(deliveryId);
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import express from "express";
+import { createAdminRouter } from "../src/admin";
+import { UsageLedger } from "../src/ledger";
+
+const TOKEN = "admin-secret";
+
+describe("admin usage route", () => {
+  let directory: string;
+  let server: http.Server;
+  let base: string;
+
+  /**
+   * Fetches the usage report with the given query string.
+   */
+  const usage = async (query: string, token = TOKEN) => {
+    const response = await fetch(`${base}/admin/usage?${query}`, {
+      headers: { authorization: `Bearer ${token}` },
+    });
+    return { status: response.status, body: (await response.json()) as any };
+  };
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "admin-"));
+    const ledger = new UsageLedger(path.join(directory, "usage.jsonl"));
+    for (const timestamp of [
+      "2026-10-18T23:59:59.000Z",
+      "2026-10-19T00:00:00.000Z",
+      "2026-10-19T18:30:00.000Z",
+      "2026-10-20T00:00:00.000Z",
+    ]) {
+      await ledger.append({
+        taskId: timestamp,
+        contextId: "context",
+        subscriber: "0xabc",
+        skillId: "weather",
+        credits: 2,
+        state: "completed",
+        durationMs: 10,
+        timestamp,
+      });
+    }
+    const app = express();
+    app.use("/admin", createAdminRouter({ ledger, token: TOKEN }));
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+  after(async () => {
+    server.close();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("refuses requests without the admin token", async () => {
+    assert.equal((await usage("", "wrong")).status, 401);
+    assert.equal((await usage("", "")).status, 401);
+  });
+
+  it("includes the whole day of a date-only `to`", async () => {
+    const { body } = await usage("from=2026-10-19&to=2026-10-19");
+    assert.equal(body.totals.tasks, 2);
+    assert.equal(body.to, "2026-10-19T23:59:59.999Z");
+  });
+
+  it("keeps an explicit `to` time as is", async () => {
+    const { body } = await usage("to=2026-10-19T00:00:00Z");
+    assert.equal(body.totals.tasks, 2);
+  });
+
+  it("rejects invalid dates", async () => {
+    assert.equal((await usage("to=yesterday")).status, 400);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { AgentCard } from "@nevermined-io/payments";
+import {
+  validateAgentCard,
+  assertValidAgentCard,
+  AgentCardError,
+  PAYMENT_EXTENSION_URI,
+} from "../src/agentCard";
+
+const EXPECTED = {
+  agentId: "did:nv:agent",
+  planId: "plan-1",
+  port: 41243,
+  basePath: "/a2a/",
+};
+
+/**
+ * Builds a valid card, with overrides.
+ */
+function card(overrides: Record<string, unknown> = {}): AgentCard {
+  return {
+    name: "AI Assistant",
+    description: "Test agent",
+    url: "http://localhost:41243/a2a/",
+    version: "2.0.0",
+    capabilities: {
+      streaming: true,
+      extensions: [
+        {
+          uri: PAYMENT_EXTENSION_URI,
+          params: { agentId: EXPECTED.agentId, planId: EXPECTED.planId },
+        },
+      ],
+    },
+    defaultInputModes: ["text/plain"],
+    defaultOutputModes: ["text/plain"],
+    skills: [{ id: "greeting", name: "Greeting", description: "Hi", tags: [] }],
+    ...overrides,
+  } as AgentCard;
+}
+
+describe("validateAgentCard", () => {
+  it("accepts a card matching the server", () => {
+    assert.deepEqual(validateAgentCard(card(), EXPECTED), []);
+  });
+
+  it("reports schema, ID, URL and duplicate skill issues", () => {
+    const issues = validateAgentCard(
+      card({
+        version: "",
+        url: "http://localhost:3000/other/",
+        skills: [
+          { id: "greeting", name: "Greeting", description: "Hi", tags: [] },
+          { id: "greeting", name: "Again", description: "Hi", tags: "x" },
+        ],
+        capabilities: {
+          extensions: [{ uri: PAYMENT_EXTENSION_URI, params: { agentId: "other" } }],
+        },
+      }),
+      EXPECTED
+    );
+    assert.deepEqual(issues, [
+      "version must be a non-empty string",
+      "skills[1].tags must be an array of strings",
+      'skills[1].id "greeting" is not unique',
+      `${PAYMENT_EXTENSION_URI} params.agentId is "other", expected "${EXPECTED.agentId}"`,
+      `${PAYMENT_EXTENSION_URI} params.planId is required`,
+      'url path "/other/" does not match the base path "/a2a/"',
+      "url port 3000 does not match the served port 41243",
+    ]);
+  });
+
+  it("throws an AgentCardError listing the issues", () => {
+    assert.throws(
+      () => assertValidAgentCard(card({ skills: [] }), EXPECTED),
+      (error: unknown) =>
+        error instanceof AgentCardError &&
+        error.issues.includes("skills must not be empty")
+    );
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CreditGuard, SpendingTracker } from "../src/billing";
+
+const ALICE = { id: "0xalice", token: "token" };
+
+/**
+ * Builds a guard with a daily cap of 10 credits.
+ */
+function guard(balance?: () => Promise<number | undefined>) {
+  const tracker = new SpendingTracker();
+  return new CreditGuard({
+    balance,
+    caps: { default: { daily: 10 }, subscribers: {} },
+    tracker,
+  });
+}
+
+describe("CreditGuard", () => {
+  it("reserves allowed estimates so concurrent checks respect the cap", async () => {
+    const credits = guard(async () => 100);
+
+    const checks = await Promise.all(
+      ["t1", "t2", "t3"].map((taskId) => credits.check(ALICE, 4, taskId))
+    );
+    assert.deepEqual(
+      checks.map((check) => check.allowed),
+      [true, true, false]
+    );
+    assert.equal(credits.reserved(ALICE.id), 8);
+  });
+
+  it("settles reservations to the actual charge", async () => {
+    const credits = guard();
+    await credits.check(ALICE, 6, "t1");
+    await credits.check(ALICE, 4, "t2");
+
+    credits.settle("t1", ALICE.id, 2);
+    credits.settle("t2", ALICE.id, 0);
+    assert.equal(credits.reserved(ALICE.id), 0);
+    assert.deepEqual(credits.spending(ALICE.id), [
+      { period: "daily", cap: 10, spent: 2 },
+    ]);
+    assert.equal((await credits.check(ALICE, 8, "t3")).allowed, true);
+    assert.equal((await credits.check(ALICE, 1, "t4")).allowed, false);
+  });
+
+  it("releases the reservation of a check refused for its balance", async () => {
+    const credits = guard(async () => 5);
+    assert.equal((await credits.check(ALICE, 3, "t1")).allowed, true);
+    assert.deepEqual(await credits.check(ALICE, 3, "t2"), {
+      allowed: false,
+      reason: "insufficient_credits",
+      required: 3,
+      available: 2,
+    });
+    assert.equal(credits.reserved(ALICE.id), 3);
+  });
+});
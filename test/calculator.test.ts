@@ -0,0 +1,57 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { evaluateExpression, CalculationError } from "../src/calculator";
+
+/**
+ * Asserts that an expression fails with a CalculationError matching a message.
+ */
+function assertFails(expression: string, message: RegExp): void {
+  assert.throws(
+    () => evaluateExpression(expression),
+    (error: unknown) =>
+      error instanceof CalculationError && message.test(error.message)
+  );
+}
+
+describe("evaluateExpression", () => {
+  it("respects precedence, parentheses and right-associative powers", () => {
+    assert.equal(evaluateExpression("2 + 3 * 4").value, 14);
+    assert.equal(evaluateExpression("(2 + 3) * 4").value, 20);
+    assert.equal(evaluateExpression("2 ^ 3 ^ 2").value, 512);
+    assert.equal(evaluateExpression("-2 ^ 2").value, -4);
+  });
+
+  it("evaluates functions, constants and assignments", () => {
+    assert.equal(evaluateExpression("sqrt(16) + abs(-2)").value, 6);
+    assert.equal(evaluateExpression("round(pi, 2)").value, 3.14);
+    assert.equal(evaluateExpression("x = 3; y = x * 2; x + y").value, 9);
+    assert.equal(
+      evaluateExpression("2 + ceil(words / 10)", { variables: { words: 25 } })
+        .value,
+      5
+    );
+  });
+
+  it("rounds halves away from zero", () => {
+    assert.equal(evaluateExpression("round(2.5)").value, 3);
+    assert.equal(evaluateExpression("round(-2.5)").value, -3);
+    assert.equal(evaluateExpression("round(1.005, 2)").value, 1.01);
+    assert.equal(evaluateExpression("round(-1.005, 2)").value, -1.01);
+  });
+
+  it("reports errors with their position", () => {
+    assertFails("1 / 0", /Division by zero at position 2/);
+    assertFails("foo + 1", /Unknown variable "foo" at position 0/);
+    assertFails("bar(1)", /Unknown function "bar" at position 0/);
+    assertFails("sqrt(1, 2)", /Wrong number of arguments for "sqrt"/);
+    assertFails("pi = 3", /Cannot assign to reserved name "pi"/);
+  });
+
+  it("does not resolve Object.prototype members", () => {
+    assertFails("constructor(1)", /Unknown function "constructor" at position 0/);
+    assertFails("toString(1)", /Unknown function "toString" at position 0/);
+    assertFails("constructor + 1", /Unknown variable "constructor" at position 0/);
+    assertFails("__proto__", /Unknown variable "__proto__" at position 0/);
+    assert.equal(evaluateExpression("__proto__ = 2; __proto__ * 3").value, 6);
+  });
+});
@@ -0,0 +1,63 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ConfigError, loadConfig } from "../src/config";
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), "config-"));
+const file = path.join(directory, "a2a.config.json");
+fs.writeFileSync(
+  file,
+  JSON.stringify({
+    agent: { port: 5000 },
+    streaming: { maxMessages: 50 },
+    push: { maxAttempts: 3 },
+    profiles: { demo: { push: { maxAttempts: 2 } } },
+  })
+);
+
+const ENV = { PUBLISHER_API_KEY: "key", A2A_CONFIG: file };
+
+describe("loadConfig", () => {
+  after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  it("layers defaults < file < env < CLI", () => {
+    const config = loadConfig({
+      role: "agent",
+      env: { ...ENV, PORT: "6000", PUSH_MAX_ATTEMPTS: "4" },
+      argv: ["--port", "7000"],
+    });
+    assert.equal(config.agent.port, 7000);
+    assert.equal(config.push.maxAttempts, 4);
+    assert.equal(config.streaming.maxMessages, 50);
+    assert.equal(config.streaming.minIntervalMs, 100);
+    assert.equal(config.agent.publicUrl, "http://localhost:7000/a2a/");
+  });
+
+  it("applies a profile over the file values", () => {
+    const config = loadConfig({
+      role: "agent",
+      env: ENV,
+      argv: ["--profile=demo"],
+    });
+    assert.equal(config.push.maxAttempts, 2);
+    assert.equal(config.profile, "demo");
+  });
+
+  it("reports every invalid or missing value at once", () => {
+    assert.throws(
+      () =>
+        loadConfig({
+          role: "agent",
+          env: { A2A_CONFIG: file, PORT: "abc" },
+          argv: ["--unknown", "1"],
+        }),
+      (error: unknown) =>
+        error instanceof ConfigError &&
+        error.issues.includes('env PORT must be a number (got "abc")') &&
+        error.issues.includes("Unknown CLI flag --unknown") &&
+        error.issues.includes("agent.apiKey is required (env PUBLISHER_API_KEY)")
+    );
+  });
+});
@@ -0,0 +1,91 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import type { AddressInfo } from "net";
+import express from "express";
+import { createExtendedCardHandler } from "../src/extendedCard";
+import { PricingEngine } from "../src/pricing";
+import type { Skill } from "../src/skills";
+
+const skills = [
+  { id: "greeting", label: "Greeting", credits: 1, card: { name: "Greeting" } },
+] as unknown as Skill[];
+
+const pricing = PricingEngine.create(skills, {}, {
+  minAmount: 1,
+  maxAmount: 10,
+});
+
+const card = {
+  name: "Agent",
+  url: "http://localhost/a2a/",
+  capabilities: { extensions: [] },
+} as any;
+
+describe("extended card handler", () => {
+  const app = express();
+  let server: http.Server;
+  let base: string;
+
+  /**
+   * Mounts a handler on the test server.
+   */
+  const mount = (path: string, options: { describeFails?: boolean }) => {
+    const broken = Object.create(pricing);
+    broken.describe = () => {
+      throw new Error("formula failed");
+    };
+    app.get(
+      path,
+      createExtendedCardHandler({
+        card: () => card,
+        planId: () => "plan-1",
+        verify: async (subscriber) => {
+          if (subscriber.token !== "valid") throw new Error("rejected");
+          return { balance: 5 };
+        },
+        skills,
+        pricing: options.describeFails ? broken : pricing,
+        quotas: { global: {}, subscriber: {}, skills: {} },
+      })
+    );
+  };
+  mount("/card", {});
+  mount("/broken", { describeFails: true });
+
+  /**
+   * Fetches a card with a bearer token.
+   */
+  const fetchCard = async (path: string, token?: string) => {
+    const response = await fetch(`${base}${path}`, {
+      headers: token ? { authorization: `Bearer ${token}` } : {},
+    });
+    return { status: response.status, body: (await response.json()) as any };
+  };
+
+  before(async () => {
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+  after(() => server.close());
+
+  it("serves the subscription details to verified subscribers", async () => {
+    const { status, body } = await fetchCard("/card", "valid");
+    assert.equal(status, 200);
+    const [subscription] = body.capabilities.extensions;
+    assert.equal(subscription.params.balance, 5);
+    assert.deepEqual(subscription.params.unlockedSkills, ["greeting"]);
+  });
+
+  it("refuses missing and rejected tokens", async () => {
+    assert.equal((await fetchCard("/card")).status, 401);
+    assert.equal((await fetchCard("/card", "forged")).status, 401);
+  });
+
+  it("answers 500 when the card cannot be built", async () => {
+    const { status, body } = await fetchCard("/broken", "valid");
+    assert.equal(status, 500);
+    assert.equal(body.error, "failed to build the extended card");
+  });
+});
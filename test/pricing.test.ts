@@ -0,0 +1,86 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PricingEngine } from "../src/pricing";
+import { ConfigError } from "../src/config";
+import type { Skill } from "../src/skills";
+
+const BOUNDS = { minAmount: 1, maxAmount: 100 };
+
+/**
+ * Builds the part of a skill the pricing engine reads.
+ */
+function skill(id: string, price: { credits?: number; formula?: string }): Skill {
+  return { id, label: id, ...price } as Skill;
+}
+
+const skills = [
+  skill("greeting", { credits: 1 }),
+  skill("translation", { formula: "2 + ceil(words / 10)" }),
+  skill("discounted", { formula: "words - 10" }),
+  skill("bulk", { formula: "words * 10" }),
+  skill("ratio", { formula: "10 / (words - 2)" }),
+];
+
+describe("PricingEngine", () => {
+  const pricing = PricingEngine.create(skills, {}, BOUNDS);
+
+  it("prices fixed and formula rules", () => {
+    assert.equal(pricing.price("greeting"), 1);
+    assert.equal(pricing.price("translation", { words: 25 }), 5);
+    assert.equal(pricing.price("bulk", { words: 2.55 }), 26);
+  });
+
+  it("charges the plan minimum when a formula evaluates to 0 or less", () => {
+    assert.equal(pricing.price("discounted", { words: 10 }), 1);
+    assert.equal(pricing.price("discounted", { words: 0 }), 1);
+  });
+
+  it("charges the plan minimum when a formula fails to evaluate", () => {
+    assert.equal(pricing.price("ratio", { words: 7 }), 2);
+    assert.equal(pricing.price("ratio", { words: 2 }), 1);
+  });
+
+  it("caps formula results at the plan maximum", () => {
+    assert.equal(pricing.price("bulk", { words: 50 }), 100);
+  });
+
+  it("keeps 0 as not billed when clamping published charges", () => {
+    assert.equal(pricing.clamp(0), 0);
+    assert.equal(pricing.clamp(-3), 0);
+    assert.equal(pricing.clamp(Number.NaN), 0);
+    assert.equal(pricing.clamp(0.2), 1);
+    assert.equal(pricing.clamp(250), 100);
+  });
+
+  it("refuses prices outside the plan bounds and invalid formulas at startup", () => {
+    assert.throws(
+      () =>
+        PricingEngine.create(
+          skills,
+          { skills: { greeting: { credits: 500 } } },
+          BOUNDS
+        ),
+      ConfigError
+    );
+    assert.throws(
+      () =>
+        PricingEngine.create(
+          skills,
+          { skills: { translation: { formula: "2 + pages" } } },
+          BOUNDS
+        ),
+      ConfigError
+    );
+    assert.throws(
+      () =>
+        PricingEngine.create(
+          skills,
+          { skills: { translation: { formula: "10 / words" } } },
+          BOUNDS
+        ),
+      (error: unknown) =>
+        error instanceof ConfigError &&
+        error.issues.some((issue) => issue.includes("Division by zero"))
+    );
+  });
+});
@@ -0,0 +1,196 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import type { AddressInfo } from "net";
+import express from "express";
+import {
+  PUSH_DELIVERY_ID_HEADER,
+  PUSH_SIGNATURE_HEADER,
+  PUSH_TOKEN_HEADER,
+  PushConfigRegistry,
+  PushNotifier,
+  pushHeaders,
+  signPushPayload,
+} from "../src/push";
+import { SubscriberDirectory, identifySubscriber } from "../src/subscribers";
+
+const EVENT = {
+  kind: "status-update",
+  taskId: "task-1",
+  contextId: "context-1",
+  status: { state: "completed" },
+  final: true,
+} as any;
+
+const DELIVERY = {
+  configTimeoutSeconds: 1,
+  maxAttempts: 4,
+  retryBaseMs: 100,
+  retryMaxMs: 300,
+  requestTimeoutMs: 1000,
+};
+
+/**
+ * Starts a server answering each request with the next status of a list
+ * (the last one repeats) and recording the requests.
+ */
+async function webhook(statuses: number[]) {
+  const requests: Array<{ headers: http.IncomingHttpHeaders; body: string }> =
+    [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      requests.push({ headers: req.headers, body });
+      res.statusCode = statuses[Math.min(requests.length, statuses.length) - 1];
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}/webhook`, requests, server };
+}
+
+describe("push signing", () => {
+  it("signs the timestamp and body with HMAC-SHA256", () => {
+    const signature = signPushPayload('{"a":1}', "secret", "1700000000");
+    assert.match(signature, /^sha256=[0-9a-f]{64}$/);
+    assert.equal(signature, signPushPayload('{"a":1}', "secret", "1700000000"));
+    assert.notEqual(signature, signPushPayload('{"a":2}', "secret", "1700000000"));
+    assert.notEqual(signature, signPushPayload('{"a":1}', "secret", "1700000001"));
+  });
+
+  it("sends the config's credentials and token, signed with the token", () => {
+    const headers = pushHeaders(
+      {
+        url: "https://example.com",
+        token: "tok",
+        authentication: { schemes: ["Bearer"], credentials: "cred" },
+      },
+      "{}",
+      "delivery-1",
+      "1700000000"
+    );
+    assert.equal(headers.authorization, "Bearer cred");
+    assert.equal(headers[PUSH_TOKEN_HEADER], "tok");
+    assert.equal(headers[PUSH_DELIVERY_ID_HEADER], "delivery-1");
+    assert.equal(
+      headers[PUSH_SIGNATURE_HEADER],
+      signPushPayload("{}", "tok", "1700000000")
+    );
+  });
+});
+
+describe("PushNotifier", () => {
+  it("retries retryable failures with capped exponential backoff", async () => {
+    const { url, requests, server } = await webhook([503, 500, 429, 200]);
+    const delays: number[] = [];
+    const notifier = new PushNotifier(DELIVERY, async (ms) => {
+      delays.push(ms);
+    });
+
+    assert.equal(await notifier.deliver({ url, token: "tok" }, EVENT), true);
+    server.close();
+    assert.deepEqual(delays, [100, 200, 300]);
+    assert.equal(requests.length, 4);
+    const ids = new Set(requests.map((r) => r.headers[PUSH_DELIVERY_ID_HEADER]));
+    assert.equal(ids.size, 1);
+    assert.deepEqual(
+      notifier.deliveries("task-1").map((attempt) => attempt.status),
+      [503, 500, 429, 200]
+    );
+  });
+
+  it("gives up on a non-retryable status", async () => {
+    const { url, requests, server } = await webhook([400]);
+    const notifier = new PushNotifier(DELIVERY, async () => {});
+
+    assert.equal(await notifier.deliver({ url }, EVENT), false);
+    server.close();
+    assert.equal(requests.length, 1);
+  });
+
+  it("flushes the deliveries in flight", async () => {
+    const { url, server } = await webhook([500, 200]);
+    let wake = () => {};
+    const notifier = new PushNotifier(
+      DELIVERY,
+      () => new Promise<void>((resolve) => (wake = resolve))
+    );
+
+    const delivery = notifier.deliver({ url }, EVENT);
+    assert.deepEqual(await notifier.flush(50), ["task-1"]);
+    wake();
+    assert.deepEqual(await notifier.flush(1000), []);
+    assert.equal(await delivery, true);
+    server.close();
+  });
+});
+
+describe("PushConfigRegistry", () => {
+  it("never replaces the config of another subscriber", () => {
+    const registry = new PushConfigRegistry();
+    assert.equal(registry.set("t1", { url: "https://a.example" }, "alice"), true);
+    assert.equal(registry.set("t1", { url: "https://b.example" }, "bob"), false);
+    assert.equal(registry.set("t1", { url: "https://c.example" }, "alice"), true);
+    assert.equal(registry.get("t1")?.url, "https://c.example");
+  });
+
+  describe("middleware", () => {
+    const registry = new PushConfigRegistry();
+    const subscribers = new SubscriberDirectory();
+    const alice = identifySubscriber("Bearer alice")!;
+    let server: http.Server;
+    let base: string;
+
+    /**
+     * Sends a set request for alice's task with a bearer token.
+     */
+    const setConfig = async (token: string, url: string): Promise<any> => {
+      const response = await fetch(base, {
+        method: "POST",
+        headers: {
+          authorization: `Bearer ${token}`,
+          "content-type": "application/json",
+        },
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          id: 1,
+          method: "tasks/pushNotificationConfig/set",
+          params: { taskId: "task-1", pushNotificationConfig: { url } },
+        }),
+      });
+      return response.json();
+    };
+
+    before(async () => {
+      // Every token is valid, and the A2A server accepts every request
+      const app = express();
+      app.use(
+        ...subscribers.middleware(async () => ({})),
+        registry.middleware((taskId) =>
+          taskId === "task-1" ? alice.id : undefined
+        ),
+        (req, res) => res.json({ jsonrpc: "2.0", id: req.body.id, result: {} })
+      );
+      server = app.listen(0);
+      await new Promise((resolve) => server.once("listening", resolve));
+      base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+    });
+    after(() => server.close());
+
+    it("records the owner's config once the server accepted it", async () => {
+      const accepted = await setConfig("alice", "https://alice.example");
+      assert.deepEqual(accepted.result, {});
+      assert.equal(registry.get("task-1")?.url, "https://alice.example");
+    });
+
+    it("refuses other subscribers and non-http(s) webhooks", async () => {
+      const stolen = await setConfig("mallory", "https://mallory.example");
+      assert.equal(stolen.error.code, -32001);
+      const local = await setConfig("alice", "file:///etc/passwd");
+      assert.equal(local.error.code, -32602);
+      assert.equal(registry.get("task-1")?.url, "https://alice.example");
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MessageInUseError, QuotaManager } from "../src/quotas";
+import type { QuotaConfig } from "../src/quotas";
+
+const CONFIG: QuotaConfig = {
+  global: { concurrentTasks: 3, concurrentStreams: 2 },
+  subscriber: { requestsPerMinute: 3, concurrentTasks: 2 },
+  skills: { streaming: { concurrentTasks: 1 } },
+};
+
+/**
+ * Builds a request starting a task.
+ */
+function task(messageId: string, subscriberId?: string, skillId?: string) {
+  return { subscriberId, skillId, startsTask: true, stream: false, messageId };
+}
+
+describe("QuotaManager", () => {
+  it("holds a task slot until the task is released", () => {
+    const quotas = new QuotaManager(CONFIG);
+
+    assert.equal(quotas.admit(task("m1", "alice")), undefined);
+    assert.equal(quotas.admit(task("m2", "alice")), undefined);
+    assert.deepEqual(quotas.admit(task("m3", "alice")), {
+      scope: "subscriber",
+      limit: "concurrentTasks",
+      max: 2,
+      retryAfterSeconds: 5,
+    });
+
+    quotas.releaseTask("m1");
+    quotas.releaseTask("m1");
+    assert.equal(quotas.admit(task("m4", "alice")), undefined);
+    assert.equal(quotas.admit(task("m5", "bob")), undefined);
+    assert.equal(quotas.admit(task("m6", "bob"))?.scope, "global");
+  });
+
+  it("limits each subscriber's use of a skill", () => {
+    const quotas = new QuotaManager(CONFIG);
+
+    assert.equal(quotas.admit(task("m1", "alice", "streaming")), undefined);
+    assert.equal(quotas.admit(task("m2", "alice", "streaming"))?.scope, "skill");
+    assert.equal(quotas.admit(task("m3", "bob", "streaming")), undefined);
+  });
+
+  it("counts requests per minute", () => {
+    const quotas = new QuotaManager(CONFIG);
+    const status = { subscriberId: "alice", startsTask: false, stream: false };
+
+    for (let i = 0; i < 3; i++) assert.equal(quotas.admit(status), undefined);
+    const violation = quotas.admit(status);
+    assert.equal(violation?.limit, "requestsPerMinute");
+    assert.ok(violation!.retryAfterSeconds > 0);
+  });
+
+  it("refuses a messageId whose task still holds its slot", () => {
+    const quotas = new QuotaManager({ ...CONFIG, subscriber: { concurrentTasks: 2 } });
+
+    assert.equal(quotas.admit(task("m1", "alice")), undefined);
+    quotas.claimTask("m1");
+    assert.throws(() => quotas.admit(task("m1", "alice")), MessageInUseError);
+    assert.equal(quotas.admit(task("m2", "alice")), undefined);
+
+    // Only the first lease was held: releasing frees exactly one slot
+    quotas.releaseTask("m1");
+    assert.equal(quotas.admit(task("m1", "alice")), undefined);
+    assert.equal(quotas.admit(task("m3", "alice"))?.limit, "concurrentTasks");
+  });
+
+  it("gives unauthenticated requests a separate global budget", () => {
+    const quotas = new QuotaManager(CONFIG);
+    const stream = { startsTask: false, stream: true };
+
+    assert.equal(quotas.admit(task("m1")), undefined);
+    assert.equal(quotas.admit(task("m2")), undefined);
+    assert.equal(quotas.admit(task("m3")), undefined);
+    assert.equal(quotas.admit(task("m4"))?.scope, "global");
+    assert.equal(quotas.admit(stream), undefined);
+    assert.equal(quotas.admit(stream), undefined);
+    assert.equal(quotas.admit(stream)?.limit, "concurrentStreams");
+
+    // Subscribers are not throttled by anonymous traffic
+    assert.equal(quotas.admit(task("m5", "alice")), undefined);
+    assert.equal(quotas.admit({ ...stream, subscriberId: "alice" }), undefined);
+    assert.equal(quotas.activeStreams(), 3);
+  });
+});
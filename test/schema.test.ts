@@ -0,0 +1,37 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { validateAgainstSchema } from "../src/skills/schema";
+import type { JsonSchema } from "../src/skills/schema";
+
+const schema: JsonSchema = {
+  type: "object",
+  properties: {
+    city: { type: "string", minLength: 1 },
+    days: { type: "integer", minimum: 1, maximum: 7 },
+  },
+  required: ["city"],
+  additionalProperties: false,
+};
+
+describe("validateAgainstSchema", () => {
+  it("accepts valid input", () => {
+    assert.deepEqual(validateAgainstSchema(schema, { city: "Paris", days: 3 }), []);
+  });
+
+  it("reports missing, mistyped and out-of-range properties", () => {
+    assert.deepEqual(validateAgainstSchema(schema, { days: 1.5 }), [
+      '"city" is required',
+      '"days" must be an integer',
+    ]);
+    assert.deepEqual(validateAgainstSchema(schema, { city: "Paris", days: 9 }), [
+      '"days" must be <= 7',
+    ]);
+  });
+
+  it("refuses Object.prototype members as properties", () => {
+    assert.deepEqual(
+      validateAgainstSchema(schema, { city: "Paris", constructor: 1, toString: "x" }),
+      ['"constructor" is not an allowed property', '"toString" is not an allowed property']
+    );
+  });
+});
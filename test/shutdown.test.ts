@@ -0,0 +1,51 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CancellationRegistry } from "../src/cancellation";
+import type { CancellationToken } from "../src/cancellation";
+import { tapEventBus } from "../src/eventBus";
+import { PushNotifier } from "../src/push";
+import { GracefulShutdown } from "../src/shutdown";
+
+describe("GracefulShutdown", () => {
+  it("fails stuck tasks once and drops their handler's late final event", async () => {
+    const tasks = new CancellationRegistry();
+    const forwarded: any[] = [];
+    const recorded: string[] = [];
+    const bus: any = {
+      publish: (event: any) => forwarded.push(event),
+      finished: () => {},
+    };
+    // Like the Executor: only the first final event of a task is recorded
+    let token: CancellationToken;
+    const tapped = tapEventBus(bus, (event: any) => {
+      if (!event.final) return;
+      if (!token.finalize()) return false;
+      recorded.push(event.status.state);
+    });
+    token = tasks.register("task-1", "context-1", tapped);
+
+    const shutdown = new GracefulShutdown({
+      config: { gracePeriodSeconds: 0, pushFlushTimeoutSeconds: 0 },
+      tasks,
+      pushNotifier: new PushNotifier({} as any),
+      planId: () => "plan-1",
+    });
+    assert.deepEqual(await shutdown.drain(), {
+      finished: 0,
+      canceled: [],
+      failed: ["task-1"],
+    });
+
+    // The stuck handler finally publishes its own final event
+    tapped.publish({
+      kind: "status-update",
+      taskId: "task-1",
+      contextId: "context-1",
+      status: { state: "completed" },
+      final: true,
+    } as any);
+    assert.deepEqual(recorded, ["failed"]);
+    assert.equal(forwarded.length, 1);
+    assert.equal(forwarded[0].metadata.errorType, "shutdown");
+  });
+});
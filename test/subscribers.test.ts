@@ -0,0 +1,72 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { SubscriberDirectory, identifySubscriber } from "../src/subscribers";
+import type { TokenVerifier } from "../src/subscribers";
+
+const ADDRESS = "0x3a5e8c2f4b1d6a7e9c0f2b4d6e8a1c3e5f7b9d0a";
+
+/**
+ * Builds an unsigned JWT with the given subject.
+ */
+function jwt(sub: string): string {
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  return `${encode({ alg: "none" })}.${encode({ sub })}.`;
+}
+
+/**
+ * Builds a verifier accepting the given tokens and counting its calls.
+ */
+function verifier(...accepted: string[]): TokenVerifier & { calls: number } {
+  const verify = async (subscriber: { token: string }) => {
+    verify.calls++;
+    if (!accepted.includes(subscriber.token)) throw new Error("rejected");
+    return {};
+  };
+  verify.calls = 0;
+  return verify;
+}
+
+describe("identifySubscriber", () => {
+  it("reads the wallet address from the token, or hashes opaque tokens", () => {
+    assert.equal(identifySubscriber(`Bearer ${jwt(ADDRESS)}`)?.id, ADDRESS);
+    assert.match(identifySubscriber("Bearer opaque")!.id, /^token:[0-9a-f]{16}$/);
+    assert.equal(identifySubscriber("Basic abc"), undefined);
+  });
+});
+
+describe("SubscriberDirectory", () => {
+  it("only authenticates tokens the verifier accepts, and caches the outcome", async () => {
+    const directory = new SubscriberDirectory();
+    const token = jwt(ADDRESS);
+    const verify = verifier(token);
+    const authenticate = (bearer: string) =>
+      directory.authenticate(`Bearer ${bearer}`, verify);
+
+    assert.equal((await authenticate(token))?.id, ADDRESS);
+    assert.equal((await authenticate(token))?.id, ADDRESS);
+    assert.equal(await authenticate(jwt("0xforged")), undefined);
+    assert.equal(await authenticate(jwt("0xforged")), undefined);
+    assert.equal(await directory.authenticate(undefined, verify), undefined);
+    assert.equal(verify.calls, 2);
+  });
+
+  it("refuses a pending messageId and attributes the task once claimed", () => {
+    const directory = new SubscriberDirectory();
+    const owner = { id: ADDRESS, token: "a" };
+
+    assert.equal(directory.remember("m1", owner), true);
+    assert.equal(directory.remember("m1", { id: "0xother", token: "b" }), false);
+    assert.equal(directory.claim("m1", "t1"), owner);
+    assert.equal(directory.forTask("t1"), owner);
+
+    // The message is claimed; an unverified follow-up clears the attribution
+    assert.equal(directory.remember("m1", owner), true);
+    assert.equal(directory.claim("m2", "t1"), undefined);
+    assert.equal(directory.forTask("t1"), undefined);
+
+    directory.claim("m1", "t2");
+    directory.forget("t2");
+    assert.equal(directory.forTask("t2"), undefined);
+  });
+});
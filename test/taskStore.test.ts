@@ -0,0 +1,67 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { FileTaskStore } from "../src/taskStore";
+
+/**
+ * Builds a task in a state.
+ */
+function task(state: string, text = ""): any {
+  return {
+    kind: "task",
+    id: "task-1",
+    contextId: "context-1",
+    status: { state, timestamp: new Date().toISOString() },
+    history: text ? [{ kind: "message", parts: [{ kind: "text", text }] }] : [],
+    metadata: { source: "test", final: "set by the client" },
+  };
+}
+
+describe("FileTaskStore", async () => {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), "task-store-"));
+  after(() => fs.rm(directory, { recursive: true, force: true }));
+
+  /**
+   * Reads the task file as written on disk.
+   */
+  const onDisk = async () =>
+    JSON.parse(await fs.readFile(path.join(directory, "task-1.json"), "utf8"));
+
+  it("writes running tasks later, with their latest snapshot", async () => {
+    const store = new FileTaskStore(directory);
+    await store.init();
+
+    await store.save(task("working", "one"));
+    await store.save(task("working", "two"));
+    await assert.rejects(onDisk(), { code: "ENOENT" });
+    const loaded: any = await store.load("task-1");
+    assert.equal(loaded.history[0].parts[0].text, "two");
+
+    await store.flush();
+    assert.equal((await onDisk()).task.history[0].parts[0].text, "two");
+  });
+
+  it("keeps the final metadata in its own file", async () => {
+    const store = new FileTaskStore(directory);
+    await store.save(task("completed"));
+    await store.recordFinalMetadata("task-1", { creditsUsed: 3 });
+
+    const loaded = await store.load("task-1");
+    assert.deepEqual(loaded?.metadata, {
+      source: "test",
+      final: "set by the client",
+      nevermined: { final: { creditsUsed: 3 } },
+    });
+
+    // Saving the loaded task does not copy the final metadata into it, and
+    // keeps the client's own metadata
+    await store.save(loaded!);
+    assert.deepEqual((await onDisk()).task.metadata, {
+      source: "test",
+      final: "set by the client",
+    });
+    assert.deepEqual((await store.load("task-1"))?.metadata, loaded?.metadata);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  Translator,
+  TranslationError,
+  normalizeLanguage,
+  languageName,
+} from "../src/translator";
+import { createTranslationSkill } from "../src/skills/translation";
+import type { SkillContext } from "../src/skills/types";
+
+describe("normalizeLanguage", () => {
+  it("resolves codes, ISO 639-2 codes and names", () => {
+    assert.equal(normalizeLanguage("es"), "es");
+    assert.equal(normalizeLanguage("spa"), "es");
+    assert.equal(normalizeLanguage("Español"), "es");
+    assert.equal(normalizeLanguage("klingon"), undefined);
+  });
+
+  it("does not accept Object.prototype members", () => {
+    assert.equal(normalizeLanguage("constructor"), undefined);
+    assert.equal(normalizeLanguage("__proto__"), undefined);
+    assert.equal(languageName("constructor"), "constructor");
+    assert.equal(languageName("fr"), "French");
+  });
+});
+
+describe("Translator", () => {
+  it("refuses unknown target languages", () => {
+    assert.throws(
+      () => new Translator().translate("hello", "constructor"),
+      TranslationError
+    );
+  });
+});
+
+describe("translation skill", () => {
+  it("translates its advertised examples fully", async () => {
+    const skill = createTranslationSkill(new Translator());
+    const stream = { update() {}, progress() {} };
+    for (const example of skill.card.examples ?? []) {
+      const result = await skill.handle({
+        userText: example,
+        input: { text: example, files: [], errors: [] },
+        stream,
+        planId: "plan",
+      } as unknown as SkillContext);
+      assert.equal(result.state, "completed", example);
+      assert.deepEqual(result.artifact?.data?.untranslated, [], example);
+    }
+  });
+
+  it("translates whole phrases before single words", () => {
+    const result = new Translator().translate("thank you very much", "de");
+    assert.equal(result.translatedText, "vielen dank");
+    assert.deepEqual(result.untranslated, []);
+  });
+});
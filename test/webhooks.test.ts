@@ -0,0 +1,114 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { pushHeaders } from "../src/push";
+import { WebhookVerifier } from "../src/webhooks";
+
+const NOW = Date.parse("2026-10-19T12:00:00.000Z");
+const TIMESTAMP = String(NOW / 1000);
+
+/**
+ * Builds the body of a notification for a task.
+ */
+function body(taskId: string, deliveryId = "delivery-1"): string {
+  return JSON.stringify({
+    deliveryId,
+    taskId,
+    contextId: "context-1",
+    status: { state: "completed", timestamp: new Date(NOW).toISOString() },
+    final: true,
+  });
+}
+
+/**
+ * Builds a verifier with a fixed clock and a 300s window.
+ */
+function verifier(clock = NOW): WebhookVerifier {
+  return new WebhookVerifier(300, () => clock);
+}
+
+describe("WebhookVerifier", () => {
+  const signed = { url: "https://client.example", token: "secret" };
+
+  it("accepts a signed delivery once, then reports duplicates", () => {
+    const webhooks = verifier();
+    webhooks.register("task-1", signed);
+    const raw = body("task-1");
+    const headers = pushHeaders(signed, raw, "delivery-1", TIMESTAMP);
+
+    assert.equal(webhooks.verify(headers, raw).kind, "accepted");
+    assert.equal(webhooks.verify(headers, raw).kind, "duplicate");
+  });
+
+  it("ignores the unsigned delivery ID header when detecting replays", () => {
+    const webhooks = verifier();
+    webhooks.register("task-1", signed);
+    const raw = body("task-1");
+    const headers = pushHeaders(signed, raw, "delivery-1", TIMESTAMP);
+
+    assert.equal(webhooks.verify(headers, raw).kind, "accepted");
+    const replayed = { ...headers, "x-a2a-delivery-id": "delivery-forged" };
+    assert.equal(webhooks.verify(replayed, raw).kind, "duplicate");
+  });
+
+  it("rejects tampered bodies, unknown tasks and missing signatures", () => {
+    const webhooks = verifier();
+    webhooks.register("task-1", signed);
+    const headers = pushHeaders(signed, body("task-1"), "delivery-1", TIMESTAMP);
+
+    const tampered = webhooks.verify(headers, body("task-1", "delivery-2"));
+    assert.deepEqual(tampered, {
+      kind: "rejected",
+      status: 401,
+      reason: "invalid signature",
+      taskId: "task-1",
+    });
+    assert.equal(
+      (webhooks.verify(headers, body("task-2")) as { status: number }).status,
+      404
+    );
+    const unsigned = { "x-a2a-timestamp": TIMESTAMP };
+    assert.equal(
+      (webhooks.verify(unsigned, body("task-1")) as { reason: string }).reason,
+      "missing or invalid notification token"
+    );
+    assert.equal(webhooks.verify({}, "not json").kind, "rejected");
+  });
+
+  it("rejects deliveries outside the time window", () => {
+    const webhooks = verifier(NOW + 301 * 1000);
+    webhooks.register("task-1", signed);
+    const raw = body("task-1");
+    const verdict = webhooks.verify(
+      pushHeaders(signed, raw, "delivery-1", TIMESTAMP),
+      raw
+    );
+    assert.equal(verdict.kind, "rejected");
+    assert.match((verdict as { reason: string }).reason, /^stale timestamp/);
+  });
+
+  it("checks the bearer credential of configs that ask for one", () => {
+    const webhooks = verifier();
+    const bearer = {
+      url: "https://client.example",
+      authentication: { schemes: ["Bearer"], credentials: "cred" },
+    };
+    webhooks.register("task-1", bearer);
+    const raw = body("task-1");
+    const headers = { authorization: "Bearer cred" };
+
+    // Signed with the credentials; without the signature the header is checked
+    assert.equal(
+      webhooks.verify(pushHeaders(bearer, raw, "delivery-1", TIMESTAMP), raw).kind,
+      "accepted"
+    );
+    assert.equal(
+      webhooks.verify(headers, body("task-1", "delivery-2")).kind,
+      "accepted"
+    );
+    assert.equal(
+      webhooks.verify({ authorization: "Bearer wrong" }, body("task-1", "d3"))
+        .kind,
+      "rejected"
+    );
+  });
+});